@@ -10,6 +10,35 @@ const envSchema = z.object({
     JWT_SECRET: z.string().min(32),
     JWT_EXPIRES_IN: z.string().default('7d'),
     CLAUDE_CLI_PATH: z.string().default('claude'),
+    PTY_HOST_MODE: z.enum(['inline', 'detached']).default('inline'),
+    PTY_HOST_SOCKET: z.string().default('/tmp/pubterm-pty-host.sock'),
+    RECORDINGS_ENABLED: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+    RECORDINGS_DIR: z.string().default('./recordings'),
+    SCRATCH_DIR: z.string().default('./scratch'),
+    WORKSPACES_DIR: z.string().default('./workspaces'),
+    WORKSPACE_REPOS_ROOT: z.string().optional(),
+    CONTEXT_FILE_MAX_BYTES: z.coerce.number().int().min(1).default(1024 * 1024),
+    FILE_PREVIEW_MAX_BYTES: z.coerce.number().int().min(1).default(1024 * 1024),
+    SANDBOX_ENABLED: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+    SANDBOX_UID_MODE: z.enum(['none', 'owner', 'session']).default('owner'),
+    SANDBOX_UID_BASE: z.coerce.number().int().min(1000).default(20000),
+    SANDBOX_UID_COUNT: z.coerce.number().int().min(1).default(10000),
+    SANDBOX_HOME_DIR: z.string().default('./sandbox-home'),
+    SANDBOX_PRLIMIT_PATH: z.string().default('prlimit'),
+    SANDBOX_CPU_SECONDS: z.coerce.number().int().min(0).default(0),
+    SANDBOX_MEMORY_MB: z.coerce.number().int().min(0).default(0),
+    SANDBOX_MAX_PROCESSES: z.coerce.number().int().min(0).default(0),
+    SANDBOX_WALL_CLOCK_SECONDS: z.coerce.number().int().min(0).default(0),
+    PAUSE_TIMEOUT_MINUTES: z.coerce.number().int().min(0).default(60),
+    PAUSE_TIMEOUT_ACTION: z.enum(['resume', 'terminate']).default('resume'),
+    SESSION_IDLE_TIMEOUT_MINUTES: z.coerce.number().int().min(0).default(120),
+    SESSION_MAX_RUNTIME_MINUTES: z.coerce.number().int().min(0).default(1440),
+    SESSION_LIMIT_WARNING_MINUTES: z.coerce.number().int().min(0).default(5),
+    MAX_LIVE_SESSIONS_PER_USER: z.coerce.number().int().min(0).default(5),
+    MAX_LIVE_SESSIONS: z.coerce.number().int().min(0).default(0),
+    VAPID_PUBLIC_KEY: z.string().optional(),
+    VAPID_PRIVATE_KEY: z.string().optional(),
+    VAPID_SUBJECT: z.string().default('mailto:admin@localhost'),
     CORS_ORIGIN: z.string().default('http://localhost:5173'),
 });
 
@@ -22,3 +51,6 @@ if (!parsed.success) {
 }
 
 export const env = parsed.data;
+
+// Names of the backend's own settings, never passed to sandboxed processes
+export const BACKEND_ENV_KEYS = Object.keys(envSchema.shape);
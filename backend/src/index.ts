@@ -5,7 +5,24 @@ import { Server } from 'socket.io';
 import { env } from './config/env.js';
 import { authRouter } from './modules/auth/auth.controller.js';
 import { sessionRouter } from './modules/session/session.controller.js';
+import { memberRouter } from './modules/session/member.controller.js';
+import { inviteRouter } from './modules/session/invite.controller.js';
+import { recordingRouter } from './modules/recording/recording.controller.js';
+import { profileRouter } from './modules/profile/profile.controller.js';
+import { contextFileRouter } from './modules/context/context-file.controller.js';
+import { fileBrowserRouter } from './modules/files/file-browser.controller.js';
+import { shareRouter, publicShareRouter } from './modules/share/share.controller.js';
+import { quotaRouter } from './modules/quota/quota.controller.js';
+import { quotaService } from './modules/quota/quota.service.js';
+import { searchRouter } from './modules/search/search.controller.js';
+import { exportRouter } from './modules/export/export.controller.js';
+import { transcriptService } from './modules/search/transcript.service.js';
+import { notificationRouter } from './modules/notification/notification.controller.js';
+import { notificationTriggers } from './modules/notification/notification.triggers.js';
 import { setupTerminalGateway } from './modules/terminal/terminal.gateway.js';
+import { setupHeadlessGateway } from './modules/headless/headless.gateway.js';
+import { ptyManager } from './modules/terminal/pty-manager.js';
+import { sessionService } from './modules/session/session.service.js';
 
 // Create Express app
 const app = express();
@@ -21,6 +38,8 @@ const io = new Server(httpServer, {
 
 // Middleware
 app.use(cors({ origin: env.CORS_ORIGIN, credentials: true }));
+// Context file uploads carry the file content, so allow larger bodies there
+app.use('/api/sessions/:id/context-files', express.json({ limit: env.CONTEXT_FILE_MAX_BYTES * 2 }));
 app.use(express.json());
 
 // Health check
@@ -30,10 +49,44 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api/auth', authRouter);
+app.use('/api/sessions/:id/recordings', recordingRouter);
+app.use('/api/sessions/:id/context-files', contextFileRouter);
+app.use('/api/sessions/:id/files', fileBrowserRouter);
+app.use('/api/sessions/:id/members', memberRouter);
+app.use('/api/sessions/:id/shares', shareRouter);
+app.use('/api/sessions/:id/export', exportRouter);
 app.use('/api/sessions', sessionRouter);
+app.use('/api/invites', inviteRouter);
+app.use('/api/share', publicShareRouter);
+app.use('/api/profiles', profileRouter);
+app.use('/api/notifications', notificationRouter);
+app.use('/api/quotas', quotaRouter);
+app.use('/api/search', searchRouter);
 
 // Setup WebSocket gateway
 setupTerminalGateway(io);
+setupHeadlessGateway(io);
+
+// Push notifications for session events
+notificationTriggers.start();
+
+// Searchable transcripts of terminal output
+transcriptService.start();
+
+// Reattach to PTYs that outlived the previous process and sync session status
+const liveSessionIds = await ptyManager.restore();
+const pausedSessionIds = liveSessionIds.filter(sessionId => ptyManager.getPauseState(sessionId));
+const reconciled = await sessionService.reconcileStatuses(liveSessionIds, pausedSessionIds);
+if (reconciled.count > 0) {
+    console.log(`   Marked ${reconciled.count} stale session(s) as terminated`);
+}
+// Reattached sessions keep their owner's idle and runtime limits
+for (const sessionId of liveSessionIds) {
+    const limits = await quotaService.getSessionLimits(sessionId).catch(() => null);
+    if (limits) {
+        ptyManager.setLimits(sessionId, limits);
+    }
+}
 
 // Start server
 httpServer.listen(Number(env.PORT), () => {
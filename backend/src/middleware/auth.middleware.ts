@@ -3,7 +3,8 @@ import jwt from 'jsonwebtoken';
 import { env } from '../config/env.js';
 import { prisma } from '../config/database.js';
 
-export interface AuthenticatedRequest extends Request {
+// Route params are plain strings in Express 4 (the bundled v5 typings also allow arrays)
+export interface AuthenticatedRequest<P = Record<string, string>> extends Request<P> {
     user?: {
         id: string;
         email: string;
@@ -0,0 +1,153 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import path from 'path';
+import { env } from '../../config/env.js';
+import { contextFileService, ContextFileError } from './context-file.service.js';
+import { sessionService, WorkingDirectoryError } from '../session/session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+import type { SessionRole } from '@prisma/client';
+
+// Mounted under /sessions/:id/context-files
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const ALLOWED_MIME_TYPES = [
+    'application/json',
+    'application/xml',
+    'application/yaml',
+    'application/x-yaml',
+    'application/javascript',
+    'application/typescript',
+    'application/x-sh',
+    'application/sql',
+];
+
+const uploadSchema = z.object({
+    filename: z.string().min(1).max(255).refine(
+        name => name === path.basename(name) && name !== '.' && name !== '..',
+        'Filename must not contain a path'
+    ),
+    content: z.string().refine(
+        content => Buffer.byteLength(content, 'utf8') <= env.CONTEXT_FILE_MAX_BYTES,
+        `File exceeds ${env.CONTEXT_FILE_MAX_BYTES} bytes`
+    ),
+    mimeType: z.string().default('text/plain').refine(
+        type => type.startsWith('text/') || ALLOWED_MIME_TYPES.includes(type),
+        'Only text files are supported'
+    ),
+});
+
+const injectSchema = z.object({
+    mode: z.enum(['write', 'paste']),
+    overwrite: z.boolean().default(false),
+});
+
+interface SessionRequest extends AuthenticatedRequest {
+    sessionRole?: SessionRole | 'ADMIN';
+}
+
+// Any member (or admin) can read context files
+router.use(async (req: SessionRequest, res: Response, next: NextFunction) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+        req.sessionRole = role ?? 'ADMIN';
+        next();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Uploading, deleting and injecting require OPERATOR or above
+function requireOperator(req: SessionRequest, res: Response, next: NextFunction): void {
+    if (req.sessionRole === 'VIEWER') {
+        res.status(403).json({ error: 'Viewers cannot modify context files' });
+        return;
+    }
+    next();
+}
+
+// GET /sessions/:id/context-files - List context files
+router.get('/', async (req: SessionRequest, res: Response) => {
+    try {
+        const files = await contextFileService.list(req.params.id);
+        res.json(files);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/context-files/:fileId - Get context file with content
+router.get('/:fileId', async (req: SessionRequest, res: Response) => {
+    try {
+        const file = await contextFileService.findById(req.params.id, req.params.fileId);
+        if (!file) {
+            res.status(404).json({ error: 'Context file not found' });
+            return;
+        }
+        res.json(file);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/context-files - Upload context file
+router.post('/', requireOperator, async (req: SessionRequest, res: Response) => {
+    try {
+        const input = uploadSchema.parse(req.body);
+        const file = await contextFileService.create({ ...input, sessionId: req.params.id });
+        res.status(201).json(file);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/context-files/:fileId/inject - Write into working directory / paste reference
+router.post('/:fileId/inject', requireOperator, async (req: SessionRequest, res: Response) => {
+    try {
+        const input = injectSchema.parse(req.body);
+        const filePath = await contextFileService.inject(req.params.id, req.params.fileId, req.user!.id, input.mode, input.overwrite);
+        res.json({ path: filePath });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof ContextFileError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        if (error instanceof WorkingDirectoryError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /sessions/:id/context-files/:fileId - Delete context file
+router.delete('/:fileId', requireOperator, async (req: SessionRequest, res: Response) => {
+    try {
+        const file = await contextFileService.findById(req.params.id, req.params.fileId);
+        if (!file) {
+            res.status(404).json({ error: 'Context file not found' });
+            return;
+        }
+
+        await contextFileService.delete(file.id);
+        res.status(204).send();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const contextFileRouter = router;
@@ -0,0 +1,130 @@
+import fs from 'fs/promises';
+import { constants } from 'fs';
+import path from 'path';
+import { prisma } from '../../config/database.js';
+import { sessionService } from '../session/session.service.js';
+import { ptyManager } from '../terminal/pty-manager.js';
+import { inputControl } from '../terminal/input-control.js';
+
+export interface ContextFileInput {
+    sessionId: string;
+    filename: string;
+    content: string;
+    mimeType: string;
+}
+
+export type InjectMode = 'write' | 'paste';
+
+// Never follow a symlink planted in the directory, and never block on a FIFO
+const INJECT_OPEN_FLAGS = constants.O_WRONLY | constants.O_CREAT | constants.O_NOFOLLOW | constants.O_NONBLOCK;
+
+/**
+ * Thrown when a context file cannot be injected as requested
+ */
+export class ContextFileError extends Error { }
+
+export class ContextFileService {
+    async list(sessionId: string) {
+        return prisma.contextFile.findMany({
+            where: { sessionId },
+            select: { id: true, filename: true, mimeType: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async findById(sessionId: string, fileId: string) {
+        return prisma.contextFile.findFirst({
+            where: { id: fileId, sessionId },
+        });
+    }
+
+    async create(input: ContextFileInput) {
+        return prisma.contextFile.create({
+            data: input,
+            select: { id: true, filename: true, mimeType: true, createdAt: true },
+        });
+    }
+
+    async delete(fileId: string) {
+        return prisma.contextFile.delete({
+            where: { id: fileId },
+        });
+    }
+
+    /**
+     * Write a context file into the session's working directory. In paste
+     * mode, also type an @-reference to it at the PTY prompt (without Enter),
+     * which like typing needs the keyboard to be free or held by the user.
+     * Returns the path the file was written to.
+     */
+    async inject(sessionId: string, fileId: string, userId: string, mode: InjectMode, overwrite: boolean): Promise<string> {
+        const file = await this.findById(sessionId, fileId);
+        if (!file) {
+            throw new ContextFileError('Context file not found');
+        }
+
+        if (mode === 'paste' && !ptyManager.exists(sessionId)) {
+            throw new ContextFileError('Session is not running');
+        }
+        if (mode === 'paste' && ptyManager.getPauseState(sessionId)) {
+            throw new ContextFileError('Session is paused');
+        }
+        if (mode === 'paste') {
+            this.assertCanType(sessionId, userId);
+        }
+
+        // Only a workspace or explicit profile directory, never a scratch or the server's directory
+        const directory = await sessionService.getSharedDirectory(sessionId);
+        const launch = await sessionService.getLaunchOptions(sessionId);
+        const target = path.join(directory, path.basename(file.filename));
+
+        let handle: fs.FileHandle;
+        try {
+            handle = await fs.open(target, INJECT_OPEN_FLAGS | (overwrite ? 0 : constants.O_EXCL), 0o644);
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code === 'EEXIST') {
+                throw new ContextFileError(`${file.filename} already exists in the working directory`);
+            }
+            if (code === 'ELOOP') {
+                throw new ContextFileError(`${file.filename} is a symlink in the working directory`);
+            }
+            throw error;
+        }
+
+        try {
+            // A hard link would let the write reach a file outside the directory
+            const stats = await handle.stat();
+            if (!stats.isFile() || stats.nlink > 1) {
+                throw new ContextFileError(`${file.filename} is not a regular file in the working directory`);
+            }
+            await handle.truncate(0);
+            await handle.writeFile(file.content);
+
+            // Sandboxed processes run as another user and must be able to edit the file
+            const uid = launch.sandbox?.uid;
+            if (uid !== undefined && process.getuid?.() === 0) {
+                await handle.chown(uid, launch.sandbox?.gid ?? uid);
+            }
+        } finally {
+            await handle.close();
+        }
+
+        if (mode === 'paste') {
+            // Control may have changed while the file was written
+            this.assertCanType(sessionId, userId);
+            ptyManager.write(sessionId, `@${path.basename(file.filename)} `);
+        }
+
+        return target;
+    }
+
+    private assertCanType(sessionId: string, userId: string): void {
+        const driver = inputControl.getState(sessionId).driver;
+        if (driver && driver.userId !== userId) {
+            throw new ContextFileError(`${driver.name} has control of the keyboard. Request control to paste.`);
+        }
+    }
+}
+
+export const contextFileService = new ContextFileService();
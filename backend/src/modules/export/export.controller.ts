@@ -0,0 +1,46 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { exportService, EXPORT_FORMATS } from './export.service.js';
+import { sessionService } from '../session/session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+// Mounted under /sessions/:id/export
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const exportSchema = z.object({
+    format: z.enum(EXPORT_FORMATS).default('md'),
+});
+
+// GET /sessions/:id/export?format=md|html|txt - Download the transcript
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        // Any member (or admin) can export, like recordings
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+
+        const { format } = exportSchema.parse(req.query);
+        const result = await exportService.export(req.params.id, format);
+        if (!result) {
+            res.status(404).json({ error: 'Session not found' });
+            return;
+        }
+
+        res.attachment(result.filename);
+        res.type(result.contentType);
+        res.send(result.body);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const exportRouter = router;
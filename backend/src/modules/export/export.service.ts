@@ -0,0 +1,169 @@
+import { prisma } from '../../config/database.js';
+import { sessionService } from '../session/session.service.js';
+import { ansiToHtml, escapeHtml, DEFAULT_BACKGROUND, DEFAULT_FOREGROUND } from '../terminal/ansi.js';
+
+export const EXPORT_FORMATS = ['md', 'html', 'txt'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// How far back a repeated block of lines counts as a redraw of the same screen
+const REDRAW_WINDOW = 50;
+// Single repeated lines (a closing brace, a separator) are kept; only blocks are trimmed
+const MIN_REDRAW_LINES = 2;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    md: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+};
+
+interface ExportLine {
+    text: string;
+    ansi: string;
+}
+
+interface ExportMetadata {
+    name: string;
+    description: string | null;
+    fields: Array<[label: string, value: string]>;
+}
+
+export interface SessionExport {
+    filename: string;
+    contentType: string;
+    body: string;
+}
+
+/**
+ * Drop blocks of lines that repeat what was shown shortly before, as
+ * full-screen and status-line redraws of TUIs do
+ */
+function trimRedraws(lines: ExportLine[]): ExportLine[] {
+    const kept: ExportLine[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        let longest = 0;
+        for (let start = Math.max(0, kept.length - REDRAW_WINDOW); start < kept.length; start++) {
+            let length = 0;
+            while (
+                start + length < kept.length &&
+                i + length < lines.length &&
+                kept[start + length].text === lines[i + length].text
+            ) {
+                length++;
+            }
+            longest = Math.max(longest, length);
+        }
+
+        if (longest >= MIN_REDRAW_LINES) {
+            i += longest;
+        } else {
+            kept.push(lines[i++]);
+        }
+    }
+    return kept;
+}
+
+function filenameFor(name: string, format: ExportFormat): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${slug || 'session'}.${format}`;
+}
+
+function renderText(metadata: ExportMetadata, lines: ExportLine[]): string {
+    return [
+        metadata.name,
+        ...(metadata.description ? [metadata.description] : []),
+        '',
+        ...metadata.fields.map(([label, value]) => `${label}: ${value}`),
+        '',
+        '-'.repeat(80),
+        '',
+        ...lines.map(line => line.text),
+        '',
+    ].join('\n');
+}
+
+function renderMarkdown(metadata: ExportMetadata, lines: ExportLine[]): string {
+    // The fence must be longer than any run of backticks in the output
+    const longestRun = Math.max(0, ...lines.map(line => Math.max(0, ...(line.text.match(/`+/g) ?? []).map(run => run.length))));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+    return [
+        `# ${metadata.name}`,
+        '',
+        ...(metadata.description ? [metadata.description, ''] : []),
+        ...metadata.fields.map(([label, value]) => `- **${label}:** ${value}`),
+        '',
+        '## Transcript',
+        '',
+        fence,
+        ...lines.map(line => line.text),
+        fence,
+        '',
+    ].join('\n');
+}
+
+function renderHtml(metadata: ExportMetadata, lines: ExportLine[]): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(metadata.name)}</title>
+<style>
+body { margin: 0; padding: 24px; font-family: system-ui, sans-serif; background: #f5f5f5; color: #222; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+pre { padding: 16px; overflow-x: auto; border-radius: 6px; font: 13px/1.4 Menlo, Consolas, monospace; background: ${DEFAULT_BACKGROUND}; color: ${DEFAULT_FOREGROUND}; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(metadata.name)}</h1>
+${metadata.description ? `<p>${escapeHtml(metadata.description)}</p>\n` : ''}<dl>
+${metadata.fields.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('\n')}
+</dl>
+<pre>${lines.map(line => ansiToHtml(line.ansi || line.text)).join('\n')}</pre>
+</body>
+</html>
+`;
+}
+
+export class ExportService {
+    /**
+     * Render a session's transcript with its metadata; null if the session does not exist
+     */
+    async export(sessionId: string, format: ExportFormat): Promise<SessionExport | null> {
+        const session = await sessionService.findById(sessionId);
+        if (!session) return null;
+
+        const transcript = await prisma.transcriptLine.findMany({
+            where: { sessionId },
+            orderBy: { line: 'asc' },
+            select: { text: true, ansi: true },
+        });
+
+        const fields: ExportMetadata['fields'] = [
+            ['Owner', session.owner.name],
+            ['Members', session.members.map(member => `${member.user.name} (${member.role})`).join(', ') || 'none'],
+            ['Mode', session.mode],
+            ['Status', session.status],
+            ['Created', session.createdAt.toISOString()],
+            ['Last activity', session.updatedAt.toISOString()],
+        ];
+        if (session.exitedAt && session.exitCode !== null) {
+            fields.push(['Last exit', `code ${session.exitCode} at ${session.exitedAt.toISOString()}`]);
+        }
+        fields.push(['Exported', new Date().toISOString()]);
+
+        const metadata = { name: session.name, description: session.description, fields };
+        const lines = trimRedraws(transcript);
+        const body = format === 'md'
+            ? renderMarkdown(metadata, lines)
+            : format === 'html'
+                ? renderHtml(metadata, lines)
+                : renderText(metadata, lines);
+
+        return { filename: filenameFor(session.name, format), contentType: CONTENT_TYPES[format], body };
+    }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,101 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import path from 'path';
+import { fileBrowserService } from './file-browser.service.js';
+import { sessionService, WorkingDirectoryError } from '../session/session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+// Mounted under /sessions/:id/files
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const pathQuerySchema = z.object({
+    path: z.string().max(4096).default(''),
+});
+
+// Any member (or admin) can browse the working directory
+router.use(async (req: AuthenticatedRequest, res: Response, next) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+        next();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/files?path= - List a directory
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { path: dirPath } = pathQuerySchema.parse(req.query);
+        const entries = await fileBrowserService.list(req.params.id, dirPath);
+        if (!entries) {
+            res.status(404).json({ error: 'Directory not found' });
+            return;
+        }
+        res.json(entries);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof WorkingDirectoryError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/files/content?path= - Get text content of a file
+router.get('/content', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { path: filePath } = pathQuerySchema.parse(req.query);
+        const file = await fileBrowserService.read(req.params.id, filePath);
+        if (!file) {
+            res.status(404).json({ error: 'File not found' });
+            return;
+        }
+        res.json(file);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof WorkingDirectoryError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/files/download?path= - Download a file
+router.get('/download', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { path: filePath } = pathQuerySchema.parse(req.query);
+        const realPath = await fileBrowserService.getFilePath(req.params.id, filePath);
+        if (!realPath) {
+            res.status(404).json({ error: 'File not found' });
+            return;
+        }
+        res.download(realPath, path.basename(filePath));
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof WorkingDirectoryError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const fileBrowserRouter = router;
@@ -0,0 +1,164 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../../config/env.js';
+import { sessionService } from '../session/session.service.js';
+
+// Bytes inspected when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface FileEntry {
+    name: string;
+    // Path relative to the working directory, '/'-separated
+    path: string;
+    type: 'file' | 'directory';
+    size: number;
+    modifiedAt: Date;
+}
+
+export interface FileContent {
+    path: string;
+    size: number;
+    binary: boolean;
+    tooLarge: boolean;
+    content: string | null;
+}
+
+export class FileBrowserService {
+    /**
+     * Resolve the real path of a session's working directory; only
+     * workspaces and explicit profile directories can be browsed
+     */
+    async getRoot(sessionId: string): Promise<string> {
+        return sessionService.getSharedDirectory(sessionId);
+    }
+
+    /**
+     * Resolve a path relative to the working directory to its real location.
+     * Returns null if it does not exist or escapes the working directory,
+     * either through `..` segments or through a symlink.
+     */
+    async resolve(root: string, relativePath: string): Promise<string | null> {
+        const target = path.resolve(root, '.' + path.sep + relativePath);
+        if (!this.isInside(root, target)) {
+            return null;
+        }
+
+        let realTarget: string;
+        try {
+            realTarget = await fs.realpath(target);
+        } catch {
+            return null;
+        }
+        return this.isInside(root, realTarget) ? realTarget : null;
+    }
+
+    /**
+     * List a directory of a session's working directory, directories first.
+     * Symlinks are listed as what they point to, and left out if they escape.
+     */
+    async list(sessionId: string, relativePath: string): Promise<FileEntry[] | null> {
+        const root = await this.getRoot(sessionId);
+        const dir = await this.resolve(root, relativePath);
+        if (!dir) {
+            return null;
+        }
+
+        let names: string[];
+        try {
+            names = await fs.readdir(dir);
+        } catch {
+            return null;
+        }
+
+        const entries = await Promise.all(names.map(async (name): Promise<FileEntry | null> => {
+            const realPath = await this.resolve(root, path.relative(root, path.join(dir, name)));
+            if (!realPath) {
+                return null;
+            }
+            try {
+                const stats = await fs.stat(realPath);
+                if (!stats.isFile() && !stats.isDirectory()) {
+                    return null;
+                }
+                return {
+                    name,
+                    path: this.toRelative(root, path.join(dir, name)),
+                    type: stats.isDirectory() ? 'directory' : 'file',
+                    size: stats.size,
+                    modifiedAt: stats.mtime,
+                };
+            } catch {
+                return null;
+            }
+        }));
+
+        return entries
+            .filter((entry): entry is FileEntry => entry !== null)
+            .sort((a, b) => {
+                if (a.type !== b.type) {
+                    return a.type === 'directory' ? -1 : 1;
+                }
+                return a.name.localeCompare(b.name);
+            });
+    }
+
+    /**
+     * Read a text file of a session's working directory. Binary files and
+     * files above FILE_PREVIEW_MAX_BYTES are described without content.
+     */
+    async read(sessionId: string, relativePath: string): Promise<FileContent | null> {
+        const root = await this.getRoot(sessionId);
+        const filePath = await this.resolve(root, relativePath);
+        if (!filePath) {
+            return null;
+        }
+
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) {
+            return null;
+        }
+
+        const result: FileContent = {
+            path: this.toRelative(root, path.resolve(root, '.' + path.sep + relativePath)),
+            size: stats.size,
+            binary: false,
+            tooLarge: stats.size > env.FILE_PREVIEW_MAX_BYTES,
+            content: null,
+        };
+        if (result.tooLarge) {
+            return result;
+        }
+
+        const buffer = await fs.readFile(filePath);
+        result.binary = buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+        if (!result.binary) {
+            result.content = buffer.toString('utf8');
+        }
+        return result;
+    }
+
+    /**
+     * Resolve a regular file for download, or null if it is not available
+     */
+    async getFilePath(sessionId: string, relativePath: string): Promise<string | null> {
+        const root = await this.getRoot(sessionId);
+        const filePath = await this.resolve(root, relativePath);
+        if (!filePath) {
+            return null;
+        }
+
+        const stats = await fs.stat(filePath);
+        return stats.isFile() ? filePath : null;
+    }
+
+    private isInside(root: string, target: string): boolean {
+        const relative = path.relative(root, target);
+        return relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative);
+    }
+
+    private toRelative(root: string, target: string): string {
+        return path.relative(root, target).split(path.sep).join('/');
+    }
+}
+
+export const fileBrowserService = new FileBrowserService();
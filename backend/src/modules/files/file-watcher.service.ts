@@ -0,0 +1,86 @@
+import { EventEmitter } from 'events';
+import { watch, FSWatcher } from 'fs';
+import path from 'path';
+
+// Changes are collected for this long before being announced
+const FLUSH_DELAY_MS = 300;
+
+// Directories whose churn is not interesting to reviewers
+const IGNORED_SEGMENTS = ['.git', 'node_modules'];
+
+interface Watch {
+    watcher: FSWatcher;
+    pending: Set<string>;
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Watches session working directories and emits batched
+ * 'change' (sessionId, paths) events with paths relative to the directory
+ */
+export class FileWatcherService extends EventEmitter {
+    private watches: Map<string, Watch> = new Map();
+
+    /**
+     * Start watching a session's working directory
+     */
+    watch(sessionId: string, dir: string): void {
+        this.unwatch(sessionId);
+
+        let watcher: FSWatcher;
+        try {
+            watcher = watch(dir, { recursive: true });
+        } catch (error) {
+            console.warn(`[FileWatcher] Cannot watch ${dir}:`, (error as Error).message);
+            return;
+        }
+
+        const entry: Watch = { watcher, pending: new Set() };
+        this.watches.set(sessionId, entry);
+
+        watcher.on('change', (_event, filename) => {
+            if (!filename) return;
+            const relative = filename.toString().split(path.sep).join('/');
+            if (relative.split('/').some(segment => IGNORED_SEGMENTS.includes(segment))) return;
+
+            entry.pending.add(relative);
+            entry.timer ??= setTimeout(() => this.flush(sessionId), FLUSH_DELAY_MS);
+        });
+
+        watcher.on('error', (error) => {
+            console.warn(`[FileWatcher] Stopped watching session ${sessionId}:`, error.message);
+            this.unwatch(sessionId);
+        });
+    }
+
+    /**
+     * Check if a session's working directory is being watched
+     */
+    exists(sessionId: string): boolean {
+        return this.watches.has(sessionId);
+    }
+
+    /**
+     * Stop watching a session's working directory
+     */
+    unwatch(sessionId: string): void {
+        const entry = this.watches.get(sessionId);
+        if (!entry) return;
+
+        clearTimeout(entry.timer);
+        entry.watcher.close();
+        this.watches.delete(sessionId);
+    }
+
+    private flush(sessionId: string): void {
+        const entry = this.watches.get(sessionId);
+        if (!entry) return;
+
+        const paths = [...entry.pending];
+        entry.pending.clear();
+        entry.timer = undefined;
+        this.emit('change', sessionId, paths);
+    }
+}
+
+export const fileWatcherService = new FileWatcherService();
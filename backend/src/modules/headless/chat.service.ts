@@ -0,0 +1,72 @@
+import { prisma } from '../../config/database.js';
+import type { ChatMessageEvent, ChatResultEvent } from './stream-json.js';
+
+export class ChatService {
+    // Pending writes per session, so sequence numbers follow arrival order
+    private queues: Map<string, Promise<unknown>> = new Map();
+
+    /**
+     * Get a session's conversation and the cost of each prompt
+     */
+    async getHistory(sessionId: string) {
+        const [events, turns] = await Promise.all([
+            prisma.chatEvent.findMany({
+                where: { sessionId },
+                orderBy: { seq: 'asc' },
+            }),
+            prisma.chatTurn.findMany({
+                where: { sessionId },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+        return { events, turns };
+    }
+
+    /**
+     * Append a message to a session's conversation
+     */
+    async recordEvent(sessionId: string, event: Omit<ChatMessageEvent, 'type'>) {
+        const previous = this.queues.get(sessionId) ?? Promise.resolve();
+        const next = previous.catch(() => { }).then(async () => {
+            const last = await prisma.chatEvent.findFirst({
+                where: { sessionId },
+                orderBy: { seq: 'desc' },
+                select: { seq: true },
+            });
+            return prisma.chatEvent.create({
+                data: { ...event, sessionId, seq: (last?.seq ?? 0) + 1 },
+            });
+        });
+
+        this.queues.set(sessionId, next);
+        next.finally(() => {
+            if (this.queues.get(sessionId) === next) {
+                this.queues.delete(sessionId);
+            }
+        }).catch(() => { });
+        return next;
+    }
+
+    async recordTurn(sessionId: string, result: Omit<ChatResultEvent, 'type'>) {
+        return prisma.chatTurn.create({
+            data: { ...result, sessionId },
+        });
+    }
+
+    async getClaudeSessionId(sessionId: string): Promise<string | null> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { claudeSessionId: true },
+        });
+        return session?.claudeSessionId ?? null;
+    }
+
+    async setClaudeSessionId(sessionId: string, claudeSessionId: string) {
+        return prisma.session.update({
+            where: { id: sessionId },
+            data: { claudeSessionId },
+        });
+    }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,184 @@
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { constants } from 'os';
+import { SessionStateError } from '../terminal/pty-manager.js';
+import type { LaunchOptions, SessionLimits } from '../terminal/pty-manager.js';
+import { applySandbox, describeExit } from '../terminal/sandbox.js';
+import { STREAM_JSON_ARGS, encodeUserMessage, parseStreamLine } from './stream-json.js';
+
+interface HeadlessProcess {
+    child: ChildProcess;
+    // A prompt was sent and its result has not arrived yet
+    busy: boolean;
+    stderr: string;
+    limits?: SessionLimits;
+    startedAt: number;
+    // Last prompt or output, for the idle timeout
+    lastActivityAt: number;
+    // Set when the manager itself ends the process (a limit was hit)
+    exitReason?: string;
+}
+
+// Keep the end of stderr to explain a failed start
+const MAX_STDERR_LENGTH = 4096;
+
+// How long a stopped CLI may take to exit before it is killed
+const STOP_GRACE_MS = 5000;
+
+// How often idle and runtime limits are checked
+const LIMIT_CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Runs the Claude CLI non-interactively with stream-JSON input and output.
+ * Emits 'event' (sessionId, StreamEvent), 'status' (sessionId, busy),
+ * 'limit' (sessionId, reason) when a limit ends it, and
+ * 'exit' (sessionId, exitCode, signal, reason).
+ */
+export class HeadlessManager extends EventEmitter {
+    private processes: Map<string, HeadlessProcess> = new Map();
+    private limitTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Start the CLI for a session, resuming Claude's previous conversation if known
+     */
+    start(sessionId: string, launch: LaunchOptions, claudeSessionId?: string | null): void {
+        if (this.processes.has(sessionId)) {
+            throw new SessionStateError('Session already running');
+        }
+
+        const launchArgs = [...launch.args, ...STREAM_JSON_ARGS];
+        if (claudeSessionId) {
+            launchArgs.push('--resume', claudeSessionId);
+        }
+
+        const { command, args, env } = launch.sandbox
+            ? applySandbox(launch.command, launchArgs, launch.env, launch.sandbox)
+            : { command: launch.command, args: launchArgs, env: launch.env };
+
+        const child = spawn(command, args, {
+            cwd: launch.cwd,
+            env,
+            uid: launch.sandbox?.uid,
+            gid: launch.sandbox?.gid,
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        const now = Date.now();
+        const entry: HeadlessProcess = { child, busy: false, stderr: '', limits: launch.limits, startedAt: now, lastActivityAt: now };
+        this.processes.set(sessionId, entry);
+        if (!this.limitTimer && (launch.limits?.idleTimeoutMs || launch.limits?.maxRuntimeMs)) {
+            this.limitTimer = setInterval(() => this.checkLimits(), LIMIT_CHECK_INTERVAL_MS);
+            this.limitTimer.unref();
+        }
+
+        createInterface({ input: child.stdout! }).on('line', (line) => {
+            entry.lastActivityAt = Date.now();
+            for (const event of parseStreamLine(line)) {
+                if (event.type === 'result') {
+                    this.setBusy(sessionId, entry, false);
+                }
+                this.emit('event', sessionId, event);
+            }
+        });
+
+        child.stderr!.on('data', (chunk: Buffer) => {
+            entry.stderr = (entry.stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+        });
+
+        // Writes after the process died are reported through 'close'
+        child.stdin!.on('error', () => { });
+
+        child.on('error', (error) => {
+            entry.stderr += error.message;
+        });
+
+        child.on('close', (code, signal) => {
+            this.processes.delete(sessionId);
+            const exitCode = code ?? 1;
+            const signalNumber = signal ? constants.signals[signal] : undefined;
+            const reason = entry.exitReason ?? (exitCode !== 0 && entry.stderr.trim()
+                ? entry.stderr.trim().split('\n').pop()
+                : describeExit(exitCode, signalNumber));
+            this.emit('exit', sessionId, exitCode, signalNumber, reason);
+        });
+    }
+
+    /**
+     * Send a follow-up prompt
+     */
+    send(sessionId: string, text: string): void {
+        const entry = this.processes.get(sessionId);
+        if (!entry) {
+            throw new SessionStateError('Session not running');
+        }
+        if (entry.busy) {
+            throw new SessionStateError('Claude is still working on the previous prompt');
+        }
+        entry.child.stdin!.write(encodeUserMessage(text));
+        entry.lastActivityAt = Date.now();
+        this.setBusy(sessionId, entry, true);
+    }
+
+    /**
+     * Stop a session's CLI process and wait until it has exited
+     */
+    stop(sessionId: string): Promise<void> {
+        const entry = this.processes.get(sessionId);
+        if (!entry) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => {
+            // Force it if the CLI ignores SIGTERM
+            const timer = setTimeout(() => entry.child.kill('SIGKILL'), STOP_GRACE_MS);
+            entry.child.once('close', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            entry.child.kill('SIGTERM');
+        });
+    }
+
+    exists(sessionId: string): boolean {
+        return this.processes.has(sessionId);
+    }
+
+    isBusy(sessionId: string): boolean {
+        return this.processes.get(sessionId)?.busy ?? false;
+    }
+
+    getActiveSessionIds(): string[] {
+        return Array.from(this.processes.keys());
+    }
+
+    /**
+     * End processes past their owner's idle timeout or maximum runtime.
+     * A process working on a prompt is not idle.
+     */
+    private checkLimits(): void {
+        const now = Date.now();
+        for (const [sessionId, entry] of this.processes) {
+            if (!entry.limits || entry.exitReason) continue;
+            const { idleTimeoutMs, maxRuntimeMs } = entry.limits;
+
+            if (idleTimeoutMs && !entry.busy && now - entry.lastActivityAt >= idleTimeoutMs) {
+                entry.exitReason = `Idle for ${Math.round(idleTimeoutMs / 60000)} minutes`;
+            } else if (maxRuntimeMs && now - entry.startedAt >= maxRuntimeMs) {
+                entry.exitReason = `Maximum runtime of ${Math.round(maxRuntimeMs / 60000)} minutes reached`;
+            } else {
+                continue;
+            }
+            entry.child.kill('SIGTERM');
+            this.emit('limit', sessionId, entry.exitReason);
+        }
+    }
+
+    private setBusy(sessionId: string, entry: HeadlessProcess, busy: boolean): void {
+        if (entry.busy !== busy) {
+            entry.busy = busy;
+            this.emit('status', sessionId, busy);
+        }
+    }
+}
+
+export const headlessManager = new HeadlessManager();
@@ -0,0 +1,123 @@
+import { Server } from 'socket.io';
+import { sessionService } from '../session/session.service.js';
+import type { AuthenticatedSocket } from '../terminal/terminal.gateway.js';
+import { headlessManager } from './headless-manager.js';
+import { chatService } from './chat.service.js';
+import { quotaService, QuotaExceededError } from '../quota/quota.service.js';
+import { SessionStateError } from '../terminal/pty-manager.js';
+import { SandboxUidError } from '../terminal/sandbox.js';
+import type { StreamEvent } from './stream-json.js';
+
+/**
+ * Chat events for headless sessions. Sockets join a session's room through
+ * the terminal gateway's session:join, which also sends the history.
+ */
+export function setupHeadlessGateway(io: Server) {
+    const emitStatus = (sessionId: string) => {
+        io.to(`session:${sessionId}`).emit('session:chat:status', {
+            running: headlessManager.exists(sessionId),
+            busy: headlessManager.isBusy(sessionId),
+        });
+    };
+
+    io.on('connection', (socket: AuthenticatedSocket) => {
+        // Send a prompt, starting (or resuming) the CLI if needed (operators/owners only)
+        socket.on('session:chat:send', async ({ text }: { text: string }) => {
+            const sessionId = socket.sessionId;
+            if (!sessionId) {
+                socket.emit('error', { message: 'Not in a session' });
+                return;
+            }
+
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot send messages' });
+                return;
+            }
+
+            if (typeof text !== 'string' || !text.trim()) return;
+
+            try {
+                const session = await sessionService.findById(sessionId);
+                if (!session) {
+                    socket.emit('error', { message: 'Session not found' });
+                    return;
+                }
+
+                // Terminal sessions take input through the PTY, not the chat
+                if (session.mode !== 'HEADLESS') {
+                    socket.emit('error', { message: 'Not a headless session' });
+                    return;
+                }
+
+                if (!headlessManager.exists(sessionId)) {
+                    // Headless processes count against the same live-session limits
+                    const release = await quotaService.reserve(sessionId, session.ownerId);
+                    try {
+                        const launch = await sessionService.getLaunchOptions(sessionId);
+                        const claudeSessionId = await chatService.getClaudeSessionId(sessionId);
+                        // Another socket may have started it while the profile loaded
+                        if (!headlessManager.exists(sessionId)) {
+                            headlessManager.start(sessionId, launch, claudeSessionId);
+                            await sessionService.recordBaseCommit(sessionId, launch.cwd).catch(() => { });
+                        }
+                    } finally {
+                        release();
+                    }
+                }
+
+                // Recorded before any reply can arrive, so the prompt keeps its place
+                headlessManager.send(sessionId, text);
+                const event = await chatService.recordEvent(sessionId, { kind: 'USER', text, isError: false });
+                io.to(`session:${sessionId}`).emit('session:chat:event', event);
+            } catch (error) {
+                // Anything else may carry internal details (database, spawn), so it stays generic
+                const known = error instanceof QuotaExceededError || error instanceof SessionStateError || error instanceof SandboxUidError;
+                socket.emit('error', { message: known ? error.message : 'Failed to send message' });
+            }
+        });
+
+        // Stop the CLI; the next prompt resumes the conversation (operators/owners only)
+        socket.on('session:chat:stop', () => {
+            if (!socket.sessionId || socket.sessionRole === 'VIEWER') return;
+            headlessManager.stop(socket.sessionId);
+        });
+    });
+
+    headlessManager.on('event', (sessionId: string, event: StreamEvent) => {
+        const room = `session:${sessionId}`;
+        if (event.type === 'init') {
+            chatService.setClaudeSessionId(sessionId, event.claudeSessionId).catch(() => { });
+        } else if (event.type === 'message') {
+            const { type: _type, ...message } = event;
+            chatService.recordEvent(sessionId, message)
+                .then(saved => io.to(room).emit('session:chat:event', saved))
+                .catch(() => { });
+        } else {
+            const { type: _type, ...result } = event;
+            chatService.recordTurn(sessionId, result)
+                .then(turn => io.to(room).emit('session:chat:turn', turn))
+                .catch(() => { });
+        }
+    });
+
+    headlessManager.on('status', (sessionId: string) => {
+        emitStatus(sessionId);
+    });
+
+    // Tell the conversation why the process went away; the next prompt resumes it
+    headlessManager.on('limit', (sessionId: string, reason: string) => {
+        chatService.recordEvent(sessionId, { kind: 'SYSTEM', text: reason, isError: false })
+            .then(saved => io.to(`session:${sessionId}`).emit('session:chat:event', saved))
+            .catch(() => { });
+    });
+
+    headlessManager.on('exit', (sessionId: string, exitCode: number, signal?: number, reason?: string) => {
+        emitStatus(sessionId);
+        // Stopped on request when killed by a signal, so only failures are reported
+        if (exitCode !== 0 && !signal && reason) {
+            chatService.recordEvent(sessionId, { kind: 'SYSTEM', text: reason, isError: true })
+                .then(saved => io.to(`session:${sessionId}`).emit('session:chat:event', saved))
+                .catch(() => { });
+        }
+    });
+}
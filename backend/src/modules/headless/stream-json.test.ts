@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { encodeUserMessage, parseStreamLine } from './stream-json.js';
+
+const line = (message: unknown) => JSON.stringify(message);
+
+describe('parseStreamLine', () => {
+    it('reads the CLI session ID from the init message', () => {
+        expect(parseStreamLine(line({ type: 'system', subtype: 'init', session_id: 'abc' })))
+            .toEqual([{ type: 'init', claudeSessionId: 'abc' }]);
+        expect(parseStreamLine(line({ type: 'system', subtype: 'other', session_id: 'abc' }))).toEqual([]);
+    });
+
+    it('turns assistant text and tool calls into messages', () => {
+        const events = parseStreamLine(line({
+            type: 'assistant',
+            message: {
+                content: [
+                    { type: 'text', text: 'Running the tests' },
+                    { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'npm test' } },
+                    { type: 'thinking', thinking: 'skipped' },
+                ],
+            },
+        }));
+
+        expect(events).toEqual([
+            { type: 'message', kind: 'ASSISTANT', text: 'Running the tests', isError: false },
+            {
+                type: 'message',
+                kind: 'TOOL_USE',
+                text: JSON.stringify({ command: 'npm test' }, null, 2),
+                toolName: 'Bash',
+                toolUseId: 'tool-1',
+                isError: false,
+            },
+        ]);
+    });
+
+    it('turns tool results into messages', () => {
+        const events = parseStreamLine(line({
+            type: 'user',
+            message: {
+                content: [
+                    { type: 'tool_result', tool_use_id: 'tool-1', content: 'plain output' },
+                    { type: 'tool_result', tool_use_id: 'tool-2', content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }], is_error: true },
+                    { type: 'text', text: 'our own prompt' },
+                ],
+            },
+        }));
+
+        expect(events).toEqual([
+            { type: 'message', kind: 'TOOL_RESULT', text: 'plain output', toolUseId: 'tool-1', isError: false },
+            { type: 'message', kind: 'TOOL_RESULT', text: 'a\nb', toolUseId: 'tool-2', isError: true },
+        ]);
+    });
+
+    it('sums input tokens and reports failed turns', () => {
+        const events = parseStreamLine(line({
+            type: 'result',
+            is_error: true,
+            result: 'Credit balance too low',
+            total_cost_usd: 0.25,
+            duration_ms: 1200,
+            num_turns: 3,
+            usage: { input_tokens: 10, cache_creation_input_tokens: 5, cache_read_input_tokens: 2, output_tokens: 7 },
+        }));
+
+        expect(events).toEqual([
+            { type: 'message', kind: 'SYSTEM', text: 'Credit balance too low', isError: true },
+            { type: 'result', costUsd: 0.25, durationMs: 1200, numTurns: 3, inputTokens: 17, outputTokens: 7, isError: true },
+        ]);
+    });
+
+    it('ignores fields of the wrong type', () => {
+        expect(parseStreamLine(line({ type: 'result', total_cost_usd: '1', usage: { output_tokens: null } })))
+            .toEqual([{ type: 'result', costUsd: 0, durationMs: 0, numTurns: 0, inputTokens: 0, outputTokens: 0, isError: false }]);
+        expect(parseStreamLine(line({ type: 'assistant', message: { content: 'not blocks' } }))).toEqual([]);
+        expect(parseStreamLine(line({ type: 'system', subtype: 'init', session_id: 42 }))).toEqual([]);
+    });
+
+    it('yields nothing for lines that are not JSON objects', () => {
+        expect(parseStreamLine('not json')).toEqual([]);
+        expect(parseStreamLine('null')).toEqual([]);
+        expect(parseStreamLine('[1, 2]')).toEqual([]);
+        expect(parseStreamLine(line({ type: 'unknown' }))).toEqual([]);
+    });
+});
+
+describe('encodeUserMessage', () => {
+    it('encodes one prompt per line', () => {
+        const encoded = encodeUserMessage('hello\nworld');
+
+        expect(encoded.endsWith('\n')).toBe(true);
+        expect(encoded.slice(0, -1)).not.toContain('\n');
+        expect(JSON.parse(encoded)).toEqual({
+            type: 'user',
+            message: { role: 'user', content: [{ type: 'text', text: 'hello\nworld' }] },
+        });
+    });
+});
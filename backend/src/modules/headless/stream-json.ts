@@ -0,0 +1,180 @@
+import type { ChatEventKind } from '@prisma/client';
+
+// Flags that make the Claude CLI read prompts from stdin and report as JSON lines
+export const STREAM_JSON_ARGS = [
+    '--print',
+    '--input-format', 'stream-json',
+    '--output-format', 'stream-json',
+    '--verbose',
+];
+
+export interface ChatMessageEvent {
+    type: 'message';
+    kind: ChatEventKind;
+    text: string;
+    toolName?: string;
+    toolUseId?: string;
+    isError: boolean;
+}
+
+export interface ChatInitEvent {
+    type: 'init';
+    claudeSessionId: string;
+}
+
+export interface ChatResultEvent {
+    type: 'result';
+    costUsd: number;
+    durationMs: number;
+    numTurns: number;
+    inputTokens: number;
+    outputTokens: number;
+    isError: boolean;
+}
+
+export type StreamEvent = ChatMessageEvent | ChatInitEvent | ChatResultEvent;
+
+interface ContentBlock {
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    tool_use_id?: string;
+    content?: string | ContentBlock[];
+    is_error?: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringField(object: JsonObject, key: string): string | undefined {
+    const value = object[key];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function numberField(object: JsonObject, key: string): number {
+    const value = object[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Content blocks of a message, keeping only entries that look like blocks
+ */
+function contentBlocks(content: unknown): ContentBlock[] {
+    if (!Array.isArray(content)) return [];
+    return content
+        .filter(isObject)
+        .map(block => ({
+            type: stringField(block, 'type') ?? '',
+            text: stringField(block, 'text'),
+            id: stringField(block, 'id'),
+            name: stringField(block, 'name'),
+            input: block.input,
+            tool_use_id: stringField(block, 'tool_use_id'),
+            content: typeof block.content === 'string' ? block.content : contentBlocks(block.content),
+            is_error: block.is_error === true,
+        }));
+}
+
+function blockText(content: string | ContentBlock[] | undefined): string {
+    if (typeof content === 'string') return content;
+    return (content ?? [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text ?? '')
+        .join('\n');
+}
+
+/**
+ * Encode a follow-up prompt as a stream-JSON user message
+ */
+export function encodeUserMessage(text: string): string {
+    return JSON.stringify({
+        type: 'user',
+        message: { role: 'user', content: [{ type: 'text', text }] },
+    }) + '\n';
+}
+
+/**
+ * Turn one line of Claude CLI stream-JSON output into typed events.
+ * Lines that are not JSON or not of interest yield nothing.
+ */
+export function parseStreamLine(line: string): StreamEvent[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(line);
+    } catch {
+        return [];
+    }
+    if (!isObject(parsed)) return [];
+    const message = parsed;
+    const body = isObject(message.message) ? message.message : {};
+
+    switch (message.type) {
+        case 'system': {
+            const claudeSessionId = stringField(message, 'session_id');
+            return message.subtype === 'init' && claudeSessionId
+                ? [{ type: 'init', claudeSessionId }]
+                : [];
+        }
+
+        case 'assistant': {
+            const events: StreamEvent[] = [];
+            for (const block of contentBlocks(body.content)) {
+                if (block.type === 'text' && block.text) {
+                    events.push({ type: 'message', kind: 'ASSISTANT', text: block.text, isError: false });
+                } else if (block.type === 'tool_use') {
+                    events.push({
+                        type: 'message',
+                        kind: 'TOOL_USE',
+                        text: JSON.stringify(block.input ?? {}, null, 2),
+                        toolName: block.name,
+                        toolUseId: block.id,
+                        isError: false,
+                    });
+                }
+            }
+            return events;
+        }
+
+        case 'user':
+            // Tool results come back as user messages; our own prompts are recorded when sent
+            return contentBlocks(body.content)
+                .filter(block => block.type === 'tool_result')
+                .map(block => ({
+                    type: 'message',
+                    kind: 'TOOL_RESULT',
+                    text: blockText(block.content),
+                    toolUseId: block.tool_use_id,
+                    isError: Boolean(block.is_error),
+                }));
+
+        case 'result': {
+            const usage = isObject(message.usage) ? message.usage : {};
+            const isError = message.is_error === true;
+            const result = stringField(message, 'result');
+            const events: StreamEvent[] = [];
+            if (isError && result !== undefined) {
+                events.push({ type: 'message', kind: 'SYSTEM', text: result, isError: true });
+            }
+            events.push({
+                type: 'result',
+                costUsd: numberField(message, 'total_cost_usd'),
+                durationMs: numberField(message, 'duration_ms'),
+                numTurns: numberField(message, 'num_turns'),
+                inputTokens: numberField(usage, 'input_tokens')
+                    + numberField(usage, 'cache_creation_input_tokens')
+                    + numberField(usage, 'cache_read_input_tokens'),
+                outputTokens: numberField(usage, 'output_tokens'),
+                isError,
+            });
+            return events;
+        }
+
+        default:
+            return [];
+    }
+}
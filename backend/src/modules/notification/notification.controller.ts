@@ -0,0 +1,112 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { notificationService, compilePattern, MAX_PATTERN_LENGTH } from './notification.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const subscriptionSchema = z.object({
+    endpoint: z.string().url(),
+    keys: z.object({
+        p256dh: z.string().min(1),
+        auth: z.string().min(1),
+    }),
+});
+
+const unsubscribeSchema = z.object({
+    endpoint: z.string().url(),
+});
+
+const preferencesSchema = z.object({
+    notifyOnExit: z.boolean(),
+    notifyOnPrompt: z.boolean(),
+    notifyIdleMinutes: z.number().int().min(1).max(24 * 60).nullable(),
+    // A regular expression, matched case-insensitively against each output line
+    notifyPattern: z.string().trim().min(1).max(MAX_PATTERN_LENGTH)
+        .refine(pattern => compilePattern(pattern) !== null, 'Invalid regular expression')
+        .nullable(),
+});
+
+// GET /notifications/config - Get Web Push configuration
+router.get('/config', (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+        enabled: notificationService.isEnabled(),
+        publicKey: notificationService.getPublicKey(),
+    });
+});
+
+// POST /notifications/subscriptions - Register this device for push notifications
+router.post('/subscriptions', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!notificationService.isEnabled()) {
+            res.status(503).json({ error: 'Push notifications are not configured' });
+            return;
+        }
+
+        const input = subscriptionSchema.parse(req.body);
+        await notificationService.subscribe(req.user!.id, input);
+        res.status(201).json({ subscribed: true });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /notifications/subscriptions - Unregister a device
+router.delete('/subscriptions', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = unsubscribeSchema.parse(req.body);
+        await notificationService.unsubscribe(req.user!.id, input.endpoint);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /notifications/sessions/:sessionId - Get my notification triggers for a session
+router.get('/sessions/:sessionId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const preferences = await notificationService.getPreferences(req.params.sessionId, req.user!.id);
+        if (!preferences) {
+            res.status(404).json({ error: 'Not a member of this session' });
+            return;
+        }
+        res.json(preferences);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PUT /notifications/sessions/:sessionId - Update my notification triggers for a session
+router.put('/sessions/:sessionId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = preferencesSchema.parse(req.body);
+
+        const existing = await notificationService.getPreferences(req.params.sessionId, req.user!.id);
+        if (!existing) {
+            res.status(404).json({ error: 'Not a member of this session' });
+            return;
+        }
+
+        const preferences = await notificationService.updatePreferences(req.params.sessionId, req.user!.id, input);
+        res.json(preferences);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const notificationRouter = router;
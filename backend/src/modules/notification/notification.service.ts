@@ -0,0 +1,187 @@
+import webpush from 'web-push';
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+
+export interface PushSubscriptionInput {
+    endpoint: string;
+    keys: {
+        p256dh: string;
+        auth: string;
+    };
+}
+
+export interface NotificationPreferences {
+    notifyOnExit: boolean;
+    notifyOnPrompt: boolean;
+    notifyIdleMinutes: number | null;
+    notifyPattern: string | null;
+}
+
+export interface NotificationMessage {
+    title: string;
+    body: string;
+    // Distinguishes notifications so a newer one replaces an older one of the same kind
+    tag: string;
+}
+
+export interface MemberPattern {
+    userId: string;
+    pattern: RegExp;
+}
+
+// Keeps patterns small enough that matching a line stays cheap
+export const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Compile a member's output pattern, or return null if it is not a valid regular expression
+ */
+export function compilePattern(pattern: string): RegExp | null {
+    if (pattern.length > MAX_PATTERN_LENGTH) return null;
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
+
+const PREFERENCE_FIELDS = {
+    notifyOnExit: true,
+    notifyOnPrompt: true,
+    notifyIdleMinutes: true,
+    notifyPattern: true,
+} as const;
+
+export class NotificationService {
+    private vapidConfigured = false;
+    // Output patterns per session, dropped when a member changes theirs
+    private patterns: Map<string, MemberPattern[]> = new Map();
+
+    /**
+     * Check if Web Push is configured
+     */
+    isEnabled(): boolean {
+        return Boolean(env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY);
+    }
+
+    getPublicKey(): string | null {
+        return this.isEnabled() ? env.VAPID_PUBLIC_KEY! : null;
+    }
+
+    /**
+     * Store a browser's push subscription for a user
+     */
+    async subscribe(userId: string, input: PushSubscriptionInput) {
+        const data = { userId, p256dh: input.keys.p256dh, auth: input.keys.auth };
+        return prisma.pushSubscription.upsert({
+            where: { endpoint: input.endpoint },
+            create: { endpoint: input.endpoint, ...data },
+            update: data,
+        });
+    }
+
+    async unsubscribe(userId: string, endpoint: string) {
+        return prisma.pushSubscription.deleteMany({
+            where: { userId, endpoint },
+        });
+    }
+
+    async getPreferences(sessionId: string, userId: string): Promise<NotificationPreferences | null> {
+        return prisma.sessionMember.findUnique({
+            where: { userId_sessionId: { userId, sessionId } },
+            select: PREFERENCE_FIELDS,
+        });
+    }
+
+    async updatePreferences(sessionId: string, userId: string, preferences: NotificationPreferences) {
+        const updated = await prisma.sessionMember.update({
+            where: { userId_sessionId: { userId, sessionId } },
+            data: preferences,
+            select: PREFERENCE_FIELDS,
+        });
+        this.clearPatterns(sessionId);
+        return updated;
+    }
+
+    /**
+     * Drop a session's cached patterns, e.g. after a member was removed
+     */
+    clearPatterns(sessionId: string): void {
+        this.patterns.delete(sessionId);
+    }
+
+    /**
+     * Get the users of a session who opted into exit, prompt or idle notifications.
+     * For idle, only those whose threshold is at most `idleMinutes`.
+     */
+    async getSubscribers(sessionId: string, trigger: 'exit' | 'prompt' | 'idle', idleMinutes = 0): Promise<string[]> {
+        const where = trigger === 'exit'
+            ? { notifyOnExit: true }
+            : trigger === 'prompt'
+                ? { notifyOnPrompt: true }
+                : { notifyIdleMinutes: { not: null, lte: idleMinutes } };
+
+        const members = await prisma.sessionMember.findMany({
+            where: { sessionId, ...where },
+            select: { userId: true },
+        });
+        return members.map(member => member.userId);
+    }
+
+    /**
+     * Get the output patterns members of a session want to be notified about
+     */
+    async getPatterns(sessionId: string): Promise<MemberPattern[]> {
+        const cached = this.patterns.get(sessionId);
+        if (cached) {
+            return cached;
+        }
+
+        const members = await prisma.sessionMember.findMany({
+            where: { sessionId, notifyPattern: { not: null } },
+            select: { userId: true, notifyPattern: true },
+        });
+        const patterns = members.flatMap(member => {
+            const pattern = compilePattern(member.notifyPattern!);
+            return pattern ? [{ userId: member.userId, pattern }] : [];
+        });
+        this.patterns.set(sessionId, patterns);
+        return patterns;
+    }
+
+    /**
+     * Push a notification about a session to every device of the given users.
+     * Subscriptions the push service reports as gone are removed.
+     */
+    async send(sessionId: string, userIds: string[], message: NotificationMessage): Promise<void> {
+        if (!this.isEnabled() || userIds.length === 0) {
+            return;
+        }
+        if (!this.vapidConfigured) {
+            webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY!, env.VAPID_PRIVATE_KEY!);
+            this.vapidConfigured = true;
+        }
+
+        const subscriptions = await prisma.pushSubscription.findMany({
+            where: { userId: { in: userIds } },
+        });
+        const payload = JSON.stringify({ ...message, url: `/session/${sessionId}` });
+
+        await Promise.all(subscriptions.map(async (subscription) => {
+            try {
+                await webpush.sendNotification({
+                    endpoint: subscription.endpoint,
+                    keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+                }, payload, { TTL: 60 * 60 });
+            } catch (error) {
+                const statusCode = (error as { statusCode?: number }).statusCode;
+                if (statusCode === 404 || statusCode === 410) {
+                    await prisma.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => { });
+                } else {
+                    console.warn(`[Push] Failed to notify ${subscription.endpoint}:`, (error as Error).message);
+                }
+            }
+        }));
+    }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,165 @@
+import { prisma } from '../../config/database.js';
+import { ptyManager } from '../terminal/pty-manager.js';
+import { promptDetector } from '../terminal/prompt-detector.js';
+import { memberService } from '../session/member.service.js';
+import { stripAnsi } from '../terminal/ansi.js';
+import type { DetectedPrompt } from '../terminal/prompt-detector.js';
+import { notificationService } from './notification.service.js';
+import type { NotificationMessage } from './notification.service.js';
+
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+// A member is notified about their output pattern at most once per cooldown
+const PATTERN_COOLDOWN_MS = 60 * 1000;
+// Output without a line break is only matched once it is complete (or this long)
+const MAX_PARTIAL_LINE = 4096;
+
+/**
+ * Turns session events into push notifications: exit, a detected prompt,
+ * no output for a member's idle threshold, and member output patterns
+ */
+export class NotificationTriggers {
+    private lastOutput: Map<string, number> = new Map();
+    // Members already told about the current idle period of a session
+    private idleNotified: Map<string, Set<string>> = new Map();
+    private patternNotifiedAt: Map<string, number> = new Map();
+    // Raw output after the last line break, so matches split across chunks are seen
+    private partialLines: Map<string, string> = new Map();
+
+    start(): void {
+        ptyManager.on('output', (sessionId: string, data: string) => {
+            this.lastOutput.set(sessionId, Date.now());
+            this.idleNotified.delete(sessionId);
+            const lines = this.takeLines(sessionId, data);
+            if (lines.length > 0) {
+                this.checkPatterns(sessionId, lines).catch(() => { });
+            }
+        });
+
+        ptyManager.on('exit', (sessionId: string, exitCode: number, _signal: number | undefined, reason: string | undefined, streamId: string) => {
+            // A restarted session's old process: its state belongs to the new one
+            if (ptyManager.isStale(sessionId, streamId)) return;
+
+            const partial = this.partialLines.get(sessionId);
+            this.partialLines.delete(sessionId);
+            if (partial) {
+                this.checkPatterns(sessionId, [partial]).catch(() => { });
+            }
+            this.lastOutput.delete(sessionId);
+            this.idleNotified.delete(sessionId);
+            this.notify(sessionId, 'exit', name => ({
+                title: `${name} exited`,
+                body: reason ?? `Exited with code ${exitCode}`,
+                tag: `session-${sessionId}-exit`,
+            })).catch(() => { });
+        });
+
+        // Removed members' patterns must stop matching
+        memberService.on('change', (sessionId: string) => {
+            notificationService.clearPatterns(sessionId);
+        });
+
+        promptDetector.on('change', (sessionId: string, prompt: DetectedPrompt | null) => {
+            if (!prompt) return;
+            this.notify(sessionId, 'prompt', name => ({
+                title: prompt.kind === 'permission' ? `${name} needs approval` : `${name} is waiting for a choice`,
+                body: [prompt.question, ...prompt.context.slice(0, 2)].join('\n'),
+                tag: `session-${sessionId}-prompt`,
+            })).catch(() => { });
+        });
+
+        setInterval(() => {
+            this.checkIdle().catch(() => { });
+        }, IDLE_CHECK_INTERVAL_MS).unref();
+    }
+
+    private async notify(
+        sessionId: string,
+        trigger: 'exit' | 'prompt',
+        message: (sessionName: string) => NotificationMessage
+    ): Promise<void> {
+        if (!notificationService.isEnabled()) return;
+
+        const userIds = await notificationService.getSubscribers(sessionId, trigger);
+        if (userIds.length === 0) return;
+
+        const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { name: true } });
+        if (!session) return;
+
+        await notificationService.send(sessionId, userIds, message(session.name));
+    }
+
+    private async checkIdle(): Promise<void> {
+        if (!notificationService.isEnabled()) return;
+
+        const now = Date.now();
+        for (const [sessionId, lastOutput] of this.lastOutput) {
+            const idleMinutes = Math.floor((now - lastOutput) / 60000);
+            if (idleMinutes < 1) continue;
+
+            const notified = this.idleNotified.get(sessionId) ?? new Set<string>();
+            const userIds = (await notificationService.getSubscribers(sessionId, 'idle', idleMinutes))
+                .filter(userId => !notified.has(userId));
+            if (userIds.length === 0) continue;
+
+            userIds.forEach(userId => notified.add(userId));
+            this.idleNotified.set(sessionId, notified);
+
+            const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { name: true } });
+            if (!session) continue;
+
+            await notificationService.send(sessionId, userIds, {
+                title: `${session.name} is idle`,
+                body: `No output for ${idleMinutes} minute${idleMinutes === 1 ? '' : 's'}`,
+                tag: `session-${sessionId}-idle`,
+            });
+        }
+    }
+
+    /**
+     * Add a chunk of output and return the lines it completes
+     */
+    private takeLines(sessionId: string, data: string): string[] {
+        const lines = ((this.partialLines.get(sessionId) ?? '') + data).split('\n');
+        let partial = lines.pop() ?? '';
+        if (partial.length > MAX_PARTIAL_LINE) {
+            lines.push(partial);
+            partial = '';
+        }
+        this.partialLines.set(sessionId, partial);
+        return lines;
+    }
+
+    private async checkPatterns(sessionId: string, rawLines: string[]): Promise<void> {
+        if (!notificationService.isEnabled()) return;
+
+        const patterns = await notificationService.getPatterns(sessionId);
+        if (patterns.length === 0) return;
+
+        // Long lines are cut so a pattern never runs over unbounded input
+        const lines = rawLines.map(raw => stripAnsi(raw).replace(/\r$/, '').slice(0, MAX_PARTIAL_LINE));
+        const now = Date.now();
+        const matches: { userId: string; line: string }[] = [];
+        for (const { userId, pattern } of patterns) {
+            const key = `${sessionId}:${userId}`;
+            if (now - (this.patternNotifiedAt.get(key) ?? 0) < PATTERN_COOLDOWN_MS) continue;
+
+            const line = lines.find(candidate => pattern.test(candidate));
+            if (line !== undefined) {
+                this.patternNotifiedAt.set(key, now);
+                matches.push({ userId, line: line.trim() });
+            }
+        }
+        if (matches.length === 0) return;
+
+        const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { name: true } });
+        if (!session) return;
+
+        await Promise.all(matches.map(({ userId, line }) => notificationService.send(sessionId, [userId], {
+            title: `${session.name}: output matched`,
+            body: line.slice(0, 200),
+            tag: `session-${sessionId}-pattern`,
+        })));
+    }
+}
+
+export const notificationTriggers = new NotificationTriggers();
@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { profileService, ProfileNotFoundError, ProfileNameTakenError } from './profile.service.js';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const profileSchema = z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    cwd: z.string().startsWith('/', 'Working directory must be an absolute path').optional(),
+    envAllowlist: z.array(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/)).default([]),
+    envExtra: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.string()).default({}),
+    cols: z.number().int().min(20).max(500).default(120),
+    rows: z.number().int().min(5).max(200).default(30),
+});
+
+// GET /profiles - List launch profiles (command details for admins only)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const profiles = await profileService.list();
+        if (req.user!.role === 'ADMIN') {
+            res.json(profiles);
+            return;
+        }
+        res.json(profiles.map(({ id, name, description }) => ({ id, name, description })));
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /profiles - Create launch profile
+router.post('/', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = profileSchema.parse(req.body);
+        const profile = await profileService.create(input);
+        res.status(201).json(profile);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof ProfileNameTakenError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PUT /profiles/:id - Replace launch profile
+router.put('/:id', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = profileSchema.parse(req.body);
+        const profile = await profileService.update(req.params.id, input);
+        res.json(profile);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof ProfileNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof ProfileNameTakenError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /profiles/:id - Delete launch profile
+router.delete('/:id', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        await profileService.delete(req.params.id);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof ProfileNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const profileRouter = router;
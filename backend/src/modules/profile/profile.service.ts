@@ -0,0 +1,135 @@
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { Prisma } from '@prisma/client';
+import type { LaunchProfile } from '@prisma/client';
+import type { LaunchOptions } from '../terminal/pty-manager.js';
+import { isSandboxEnabled } from '../terminal/sandbox.js';
+
+export interface ProfileInput {
+    name: string;
+    description?: string;
+    command: string;
+    args: string[];
+    cwd?: string;
+    envAllowlist: string[];
+    envExtra: Record<string, string>;
+    cols: number;
+    rows: number;
+}
+
+export type Profile = Omit<LaunchProfile, 'args' | 'envAllowlist' | 'envExtra'> & {
+    args: string[];
+    envAllowlist: string[];
+    envExtra: Record<string, string>;
+};
+
+/**
+ * Thrown when a profile to change or delete does not exist
+ */
+export class ProfileNotFoundError extends Error { }
+
+/**
+ * Thrown when another profile already has the name
+ */
+export class ProfileNameTakenError extends Error { }
+
+// Turn the constraint errors of a profile write into typed errors
+function toProfileError(error: unknown): unknown {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') return new ProfileNameTakenError('Profile name already in use');
+        if (error.code === 'P2025') return new ProfileNotFoundError('Profile not found');
+    }
+    return error;
+}
+
+// List fields are stored as JSON strings (SQLite has no array columns)
+function toProfile(row: LaunchProfile): Profile {
+    return {
+        ...row,
+        args: JSON.parse(row.args) as string[],
+        envAllowlist: JSON.parse(row.envAllowlist) as string[],
+        envExtra: JSON.parse(row.envExtra) as Record<string, string>,
+    };
+}
+
+function toData(input: ProfileInput) {
+    return {
+        ...input,
+        args: JSON.stringify(input.args),
+        envAllowlist: JSON.stringify(input.envAllowlist),
+        envExtra: JSON.stringify(input.envExtra),
+    };
+}
+
+export class ProfileService {
+    async list(): Promise<Profile[]> {
+        const rows = await prisma.launchProfile.findMany({ orderBy: { name: 'asc' } });
+        return rows.map(toProfile);
+    }
+
+    async findById(profileId: string): Promise<Profile | null> {
+        const row = await prisma.launchProfile.findUnique({ where: { id: profileId } });
+        return row ? toProfile(row) : null;
+    }
+
+    async create(input: ProfileInput): Promise<Profile> {
+        const row = await prisma.launchProfile.create({ data: toData(input) }).catch((error) => {
+            throw toProfileError(error);
+        });
+        return toProfile(row);
+    }
+
+    async update(profileId: string, input: ProfileInput): Promise<Profile> {
+        const row = await prisma.launchProfile.update({
+            where: { id: profileId },
+            data: toData(input),
+        }).catch((error) => {
+            throw toProfileError(error);
+        });
+        return toProfile(row);
+    }
+
+    async delete(profileId: string) {
+        return prisma.launchProfile.delete({ where: { id: profileId } }).catch((error) => {
+            throw toProfileError(error);
+        });
+    }
+
+    /**
+     * Turn a profile into spawn options. Without a profile the session runs
+     * the default Claude CLI with the backend's environment (unless sandboxed).
+     * Without a profile directory it runs in `defaultCwd`, never the backend's own.
+     */
+    toLaunchOptions(profile: Profile | null, defaultCwd: string): LaunchOptions {
+        if (!profile) {
+            return {
+                command: env.CLAUDE_CLI_PATH,
+                args: [],
+                cwd: defaultCwd,
+                env: isSandboxEnabled() ? {} : process.env as Record<string, string>,
+                cols: 120,
+                rows: 30,
+            };
+        }
+
+        const launchEnv: Record<string, string> = {};
+        for (const name of profile.envAllowlist) {
+            const value = process.env[name];
+            if (value !== undefined) {
+                launchEnv[name] = value;
+            }
+        }
+        Object.assign(launchEnv, profile.envExtra);
+
+        return {
+            command: profile.command,
+            args: profile.args,
+            cwd: profile.cwd ?? defaultCwd,
+            env: launchEnv,
+            cols: profile.cols,
+            rows: profile.rows,
+        };
+    }
+}
+
+export const profileService = new ProfileService();
@@ -0,0 +1,75 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { quotaService, UserNotFoundError } from './quota.service.js';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// null = server default, 0 = unlimited
+const limit = z.number().int().min(0).max(100000).nullable().optional();
+
+const overrideSchema = z.object({
+    maxLiveSessions: limit,
+    idleTimeoutMinutes: limit,
+    maxRuntimeMinutes: limit,
+});
+
+// GET /quotas/me - Own limits and running sessions
+router.get('/me', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const [limits, liveSessions] = await Promise.all([
+            quotaService.getLimits(req.user!.id),
+            quotaService.countLiveSessions(req.user!.id),
+        ]);
+        res.json({ limits, liveSessions });
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /quotas/:userId - A user's overrides and effective limits (admin only)
+router.get('/:userId', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const [override, limits] = await Promise.all([
+            quotaService.getOverride(req.params.userId),
+            quotaService.getLimits(req.params.userId),
+        ]);
+        res.json({ override, limits });
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PUT /quotas/:userId - Override a user's limits (admin only)
+router.put('/:userId', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = overrideSchema.parse(req.body);
+        const override = await quotaService.setOverride(req.params.userId, input);
+        res.json(override);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof UserNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /quotas/:userId - Back to the server defaults (admin only)
+router.delete('/:userId', requireRole('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        await quotaService.clearOverride(req.params.userId);
+        res.status(204).send();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const quotaRouter = router;
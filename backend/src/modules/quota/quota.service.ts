@@ -0,0 +1,148 @@
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { ptyManager } from '../terminal/pty-manager.js';
+import { headlessManager } from '../headless/headless-manager.js';
+import type { SessionLimits } from '../terminal/pty-manager.js';
+
+// Effective limits of a user (0 = unlimited)
+export interface UserLimits {
+    maxLiveSessions: number;
+    idleTimeoutMinutes: number;
+    maxRuntimeMinutes: number;
+}
+
+// Admin overrides; null falls back to the server default
+export type QuotaOverride = { [K in keyof UserLimits]?: number | null };
+
+/**
+ * Thrown when starting a session would exceed a concurrency limit
+ */
+export class QuotaExceededError extends Error { }
+
+/**
+ * Thrown when setting an override for a user that does not exist
+ */
+export class UserNotFoundError extends Error { }
+
+export class QuotaService {
+    // Sessions being started (owner by session), counted as live until their process runs
+    private starting: Map<string, string> = new Map();
+
+    async getLimits(userId: string): Promise<UserLimits> {
+        const override = await prisma.userQuota.findUnique({ where: { userId } });
+        return {
+            maxLiveSessions: override?.maxLiveSessions ?? env.MAX_LIVE_SESSIONS_PER_USER,
+            idleTimeoutMinutes: override?.idleTimeoutMinutes ?? env.SESSION_IDLE_TIMEOUT_MINUTES,
+            maxRuntimeMinutes: override?.maxRuntimeMinutes ?? env.SESSION_MAX_RUNTIME_MINUTES,
+        };
+    }
+
+    /**
+     * Idle timeout and maximum runtime of a session, from its owner's limits
+     */
+    async getSessionLimits(sessionId: string): Promise<SessionLimits> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { ownerId: true },
+        });
+        if (!session) {
+            throw new Error('Session not found');
+        }
+
+        const limits = await this.getLimits(session.ownerId);
+        return {
+            idleTimeoutMs: limits.idleTimeoutMinutes * 60 * 1000,
+            maxRuntimeMs: limits.maxRuntimeMinutes * 60 * 1000,
+        };
+    }
+
+    /**
+     * Count the owner's sessions whose PTY or headless process is running
+     */
+    async countLiveSessions(ownerId: string): Promise<number> {
+        return prisma.session.count({
+            where: { ownerId, id: { in: this.getRunningSessionIds() } },
+        });
+    }
+
+    /**
+     * Throw a QuotaExceededError if the owner may not run another session.
+     * `sessionId` is left out of the count (it is the one being started).
+     */
+    async assertCanStart(ownerId: string, sessionId?: string) {
+        // Snapshot running and starting sessions together, before anything is awaited,
+        // so a session moving from one to the other is counted exactly once
+        const running = this.getRunningSessionIds();
+        const starting = [...this.starting]
+            .filter(([id]) => id !== sessionId && !running.includes(id))
+            .map(([, owner]) => owner);
+
+        if (env.MAX_LIVE_SESSIONS && running.length + starting.length >= env.MAX_LIVE_SESSIONS) {
+            throw new QuotaExceededError(
+                `The server is already running its maximum of ${env.MAX_LIVE_SESSIONS} sessions. Try again later.`
+            );
+        }
+
+        const { maxLiveSessions } = await this.getLimits(ownerId);
+        if (!maxLiveSessions) return;
+
+        const ownRunning = await prisma.session.count({ where: { ownerId, id: { in: running } } });
+        const ownStarting = starting.filter(owner => owner === ownerId).length;
+        if (ownRunning + ownStarting >= maxLiveSessions) {
+            throw new QuotaExceededError(
+                `You can run at most ${maxLiveSessions} sessions at once. Stop one before starting another.`
+            );
+        }
+    }
+
+    /**
+     * Reserve a live-session slot for a session about to start. The slot is
+     * taken before the limits are checked, so concurrent starts see each
+     * other and cannot both pass. Call the returned function once the
+     * process runs (or failed to start).
+     */
+    async reserve(sessionId: string, ownerId: string): Promise<() => void> {
+        if (this.starting.has(sessionId)) {
+            throw new QuotaExceededError('Session is already starting');
+        }
+        this.starting.set(sessionId, ownerId);
+        const release = () => {
+            this.starting.delete(sessionId);
+        };
+
+        try {
+            await this.assertCanStart(ownerId, sessionId);
+        } catch (error) {
+            release();
+            throw error;
+        }
+        return release;
+    }
+
+    private getRunningSessionIds(): string[] {
+        return [...ptyManager.getActiveSessionIds(), ...headlessManager.getActiveSessionIds()];
+    }
+
+    async getOverride(userId: string) {
+        return prisma.userQuota.findUnique({ where: { userId } });
+    }
+
+    async setOverride(userId: string, override: QuotaOverride) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!user) {
+            throw new UserNotFoundError('User not found');
+        }
+
+        return prisma.userQuota.upsert({
+            where: { userId },
+            create: { userId, ...override },
+            update: override,
+        });
+    }
+
+    async clearOverride(userId: string) {
+        await prisma.userQuota.deleteMany({ where: { userId } });
+    }
+}
+
+export const quotaService = new QuotaService();
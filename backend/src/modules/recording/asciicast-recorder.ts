@@ -0,0 +1,65 @@
+import fs from 'fs';
+import { performance } from 'perf_hooks';
+
+type AsciicastEventType = 'o' | 'i' | 'r';
+
+/**
+ * Writes a terminal session to disk in asciicast v2 format
+ * (https://docs.asciinema.org/manual/asciicast/v2/)
+ */
+export class AsciicastRecorder {
+    private stream: fs.WriteStream;
+    private startedAt = performance.now();
+
+    constructor(readonly id: string, filePath: string, width: number, height: number) {
+        this.stream = fs.createWriteStream(filePath, { flags: 'a' });
+        this.stream.on('error', (error) => {
+            console.error(`[Recorder] Failed to write ${filePath}:`, error.message);
+        });
+
+        const header = {
+            version: 2,
+            width,
+            height,
+            timestamp: Math.floor(Date.now() / 1000),
+            env: { TERM: 'xterm-256color' },
+        };
+        this.stream.write(JSON.stringify(header) + '\n');
+    }
+
+    /**
+     * Record data written by the PTY
+     */
+    output(data: string): void {
+        this.writeEvent('o', data);
+    }
+
+    /**
+     * Record data sent to the PTY
+     */
+    input(data: string): void {
+        this.writeEvent('i', data);
+    }
+
+    /**
+     * Record a terminal resize
+     */
+    resize(cols: number, rows: number): void {
+        this.writeEvent('r', `${cols}x${rows}`);
+    }
+
+    close(): void {
+        this.stream.end();
+    }
+
+    /**
+     * Seconds since the recording started
+     */
+    elapsed(): number {
+        return (performance.now() - this.startedAt) / 1000;
+    }
+
+    private writeEvent(type: AsciicastEventType, data: string): void {
+        this.stream.write(JSON.stringify([Number(this.elapsed().toFixed(6)), type, data]) + '\n');
+    }
+}
@@ -0,0 +1,52 @@
+import { Router, Response } from 'express';
+import { recordingService } from './recording.service.js';
+import { sessionService } from '../session/session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+// Mounted under /sessions/:id/recordings
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Any member (or admin) can access recordings
+router.use(async (req: AuthenticatedRequest, res: Response, next) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+        next();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/recordings - List recordings
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const recordings = await recordingService.list(req.params.id);
+        res.json(recordings);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/recordings/:recordingId - Download recording
+router.get('/:recordingId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const filePath = await recordingService.getFilePath(req.params.id, req.params.recordingId);
+        if (!filePath) {
+            res.status(404).json({ error: 'Recording not found' });
+            return;
+        }
+
+        res.type('application/x-asciicast');
+        res.download(filePath, `${req.params.recordingId}.cast`);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const recordingRouter = router;
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { env } from '../../config/env.js';
+import { AsciicastRecorder } from './asciicast-recorder.js';
+
+const RECORDING_EXTENSION = '.cast';
+const RECORDING_ID_PATTERN = /^[\w-]+$/;
+
+export interface RecordingInfo {
+    id: string;
+    size: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export class RecordingService {
+    /**
+     * Check if new sessions should be recorded
+     */
+    isEnabled(): boolean {
+        return env.RECORDINGS_ENABLED;
+    }
+
+    /**
+     * Start a new recording for a session
+     */
+    start(sessionId: string, cols: number, rows: number): AsciicastRecorder {
+        const dir = this.getSessionDir(sessionId);
+        mkdirSync(dir, { recursive: true });
+
+        // Timestamp-based ID, safe to use as a file name
+        const recordingId = new Date().toISOString().replace(/[:.]/g, '-');
+        return new AsciicastRecorder(recordingId, path.join(dir, recordingId + RECORDING_EXTENSION), cols, rows);
+    }
+
+    /**
+     * List recordings of a session, newest first
+     */
+    async list(sessionId: string): Promise<RecordingInfo[]> {
+        const dir = this.getSessionDir(sessionId);
+
+        let files: string[];
+        try {
+            files = await fs.readdir(dir);
+        } catch {
+            return [];
+        }
+
+        const recordings = await Promise.all(
+            files
+                .filter(file => file.endsWith(RECORDING_EXTENSION))
+                .map(async (file) => {
+                    const stats = await fs.stat(path.join(dir, file));
+                    return {
+                        id: path.basename(file, RECORDING_EXTENSION),
+                        size: stats.size,
+                        createdAt: stats.birthtime,
+                        updatedAt: stats.mtime,
+                    };
+                })
+        );
+
+        return recordings.sort((a, b) => b.id.localeCompare(a.id));
+    }
+
+    /**
+     * Resolve the file of a recording, or null if it does not exist
+     */
+    async getFilePath(sessionId: string, recordingId: string): Promise<string | null> {
+        if (!RECORDING_ID_PATTERN.test(recordingId)) {
+            return null;
+        }
+
+        const filePath = path.join(this.getSessionDir(sessionId), recordingId + RECORDING_EXTENSION);
+        try {
+            await fs.access(filePath);
+            return filePath;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Remove every recording of a session
+     */
+    async removeAll(sessionId: string): Promise<void> {
+        await fs.rm(this.getSessionDir(sessionId), { recursive: true, force: true });
+    }
+
+    private getSessionDir(sessionId: string): string {
+        return path.resolve(env.RECORDINGS_DIR, path.basename(sessionId));
+    }
+}
+
+export const recordingService = new RecordingService();
@@ -0,0 +1,31 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { searchService } from './search.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const searchSchema = z.object({
+    q: z.string().trim().min(2).max(200),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// GET /search?q=&limit= - Search the transcripts of accessible sessions
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = searchSchema.parse(req.query);
+        const hits = await searchService.search(req.user!.id, input.q, input.limit);
+        res.json(hits);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const searchRouter = router;
@@ -0,0 +1,98 @@
+import { prisma } from '../../config/database.js';
+import { sessionService } from '../session/session.service.js';
+
+// Transcript lines shown before and after a hit
+const CONTEXT_LINES = 2;
+// Characters of a chat message shown around a hit
+const CHAT_CONTEXT_CHARS = 120;
+
+export interface SearchHit {
+    sessionId: string;
+    sessionName: string;
+    source: 'terminal' | 'chat';
+    text: string;
+    before: string[];
+    after: string[];
+    createdAt: Date;
+    // Terminal hits: position in the transcript and the recording, if any
+    line?: number;
+    recording?: { id: string; time: number };
+    // Chat hits: position in the conversation
+    seq?: number;
+}
+
+/**
+ * Cut a chat message down to the part around the first match
+ */
+function excerpt(text: string, query: string): string {
+    const index = text.toLowerCase().indexOf(query.toLowerCase());
+    const start = Math.max(0, index - CHAT_CONTEXT_CHARS);
+    const end = Math.min(text.length, index + query.length + CHAT_CONTEXT_CHARS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+export class SearchService {
+    /**
+     * Search the terminal transcripts and headless conversations of every
+     * session the user can access, newest hits first
+     */
+    async search(userId: string, query: string, limit: number): Promise<SearchHit[]> {
+        const sessions = await sessionService.findAccessibleSessions(userId);
+        const names = new Map(sessions.map(session => [session.id, session.name]));
+        const sessionIds = [...names.keys()];
+
+        const [lines, events] = await Promise.all([
+            prisma.transcriptLine.findMany({
+                where: { sessionId: { in: sessionIds }, text: { contains: query } },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+            }),
+            prisma.chatEvent.findMany({
+                where: { sessionId: { in: sessionIds }, text: { contains: query } },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+            }),
+        ]);
+
+        const terminalHits = await Promise.all(lines.map(async (hit): Promise<SearchHit> => {
+            const context = await prisma.transcriptLine.findMany({
+                where: {
+                    sessionId: hit.sessionId,
+                    line: { gte: hit.line - CONTEXT_LINES, lte: hit.line + CONTEXT_LINES },
+                },
+                orderBy: { line: 'asc' },
+                select: { line: true, text: true },
+            });
+            return {
+                sessionId: hit.sessionId,
+                sessionName: names.get(hit.sessionId)!,
+                source: 'terminal',
+                text: hit.text,
+                before: context.filter(entry => entry.line < hit.line).map(entry => entry.text),
+                after: context.filter(entry => entry.line > hit.line).map(entry => entry.text),
+                createdAt: hit.createdAt,
+                line: hit.line,
+                recording: hit.recordingId !== null && hit.recordingTime !== null
+                    ? { id: hit.recordingId, time: hit.recordingTime }
+                    : undefined,
+            };
+        }));
+
+        const chatHits = events.map((event): SearchHit => ({
+            sessionId: event.sessionId,
+            sessionName: names.get(event.sessionId)!,
+            source: 'chat',
+            text: excerpt(event.text, query),
+            before: [],
+            after: [],
+            createdAt: event.createdAt,
+            seq: event.seq,
+        }));
+
+        return [...terminalHits, ...chatHits]
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, limit);
+    }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { renderLine } from './transcript.service.js';
+
+describe('renderLine', () => {
+    it('keeps plain text and drops trailing blanks', () => {
+        expect(renderLine('hello world   ')).toEqual({ text: 'hello world', ansi: 'hello world' });
+    });
+
+    it('overwrites characters after a carriage return', () => {
+        expect(renderLine('Progress 10%\rProgress 100%').text).toBe('Progress 100%');
+        expect(renderLine('abcdef\rxy').text).toBe('xycdef');
+    });
+
+    it('moves back over backspaces', () => {
+        expect(renderLine('abc\b\bXY').text).toBe('aXY');
+        expect(renderLine('\b\ba').text).toBe('a');
+    });
+
+    it('cuts the line at an erase-line sequence', () => {
+        expect(renderLine('Loading...\r\x1b[KDone').text).toBe('Done');
+        expect(renderLine('abcdef\b\b\b\x1b[0K').text).toBe('abc');
+    });
+
+    it('keeps colors in ansi and resets them at the end', () => {
+        expect(renderLine('\x1b[31mred\x1b[0m plain')).toEqual({
+            text: 'red plain',
+            ansi: '\x1b[31mred\x1b[0m plain',
+        });
+        expect(renderLine('\x1b[1m\x1b[32mok')).toEqual({
+            text: 'ok',
+            ansi: '\x1b[1m\x1b[32mok\x1b[0m',
+        });
+    });
+
+    it('keeps the color of the characters that were overwritten last', () => {
+        expect(renderLine('\x1b[31mxx\x1b[0m\rb')).toEqual({
+            text: 'bx',
+            ansi: 'b\x1b[31mx\x1b[0m',
+        });
+    });
+
+    it('drops other escape sequences and control characters', () => {
+        expect(renderLine('\x1b]0;title\x07\x1b[?25lvisible\x07\x7f').text).toBe('visible');
+    });
+});
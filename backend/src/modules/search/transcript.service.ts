@@ -0,0 +1,194 @@
+import { prisma } from '../../config/database.js';
+import { ptyManager } from '../terminal/pty-manager.js';
+import { splitAnsi } from '../terminal/ansi.js';
+
+// Completed lines are written to the database at most this often
+const FLUSH_INTERVAL_MS = 5000;
+// Output without a line break (e.g. a full-screen redraw) is cut into lines this long
+const MAX_LINE_LENGTH = 2000;
+// Absolute cursor moves start a new line on screen
+const CURSOR_MOVE_PATTERN = /\x1b\[[0-9;]*[HfEF]/g;
+const SGR_PATTERN = /^\x1b\[[0-9;]*m$/;
+const SGR_RESET_PATTERN = /^\x1b\[0*m$/;
+const ERASE_LINE_PATTERN = /^\x1b\[0?K$/;
+
+interface Cell {
+    char: string;
+    // SGR sequences in effect when the character was printed
+    style: string;
+}
+
+export interface RenderedLine {
+    text: string;
+    ansi: string;
+}
+
+interface PendingLine extends RenderedLine {
+    streamId: string;
+    recordingId: string | null;
+    recordingTime: number | null;
+}
+
+interface SessionTranscript {
+    // Raw output after the last line break
+    partial: string;
+    lines: PendingLine[];
+    // Last line kept, to drop spinners and other redraws of the same line
+    lastText: string | null;
+}
+
+/**
+ * Turn a raw terminal line into what it shows: carriage returns, backspaces
+ * and erase-line overwrite earlier characters, colors are kept in `ansi` and
+ * every other escape sequence is dropped
+ */
+export function renderLine(raw: string): RenderedLine {
+    const cells: Cell[] = [];
+    let column = 0;
+    let style = '';
+
+    splitAnsi(raw).forEach((token, index) => {
+        if (index % 2 === 1) {
+            if (SGR_RESET_PATTERN.test(token)) {
+                style = '';
+            } else if (SGR_PATTERN.test(token)) {
+                style += token;
+            } else if (ERASE_LINE_PATTERN.test(token) && column < cells.length) {
+                cells.length = column;
+            }
+            return;
+        }
+
+        for (const char of token) {
+            if (char === '\r') {
+                column = 0;
+            } else if (char === '\b') {
+                column = Math.max(0, column - 1);
+            } else if (char === '\t' || (char >= ' ' && char !== '\x7f')) {
+                while (cells.length < column) cells.push({ char: ' ', style: '' });
+                cells[column++] = { char, style };
+            }
+        }
+    });
+
+    while (cells.length > 0 && !cells[cells.length - 1].char.trim()) cells.pop();
+
+    let text = '';
+    let ansi = '';
+    let current = '';
+    for (const cell of cells) {
+        if (cell.style !== current) {
+            ansi += (current ? '\x1b[0m' : '') + cell.style;
+            current = cell.style;
+        }
+        text += cell.char;
+        ansi += cell.char;
+    }
+    if (current) ansi += '\x1b[0m';
+
+    return { text, ansi };
+}
+
+/**
+ * Keeps a plain-text, line-numbered transcript of every terminal session,
+ * beyond what the output buffer and screen snapshot hold
+ */
+export class TranscriptService {
+    private transcripts: Map<string, SessionTranscript> = new Map();
+    private queues: Map<string, Promise<void>> = new Map();
+
+    start(): void {
+        ptyManager.on('output', (sessionId: string, data: string) => {
+            this.append(sessionId, data);
+        });
+
+        ptyManager.on('exit', (sessionId: string) => {
+            const transcript = this.transcripts.get(sessionId);
+            if (transcript?.partial) {
+                this.addLine(sessionId, transcript, transcript.partial);
+                transcript.partial = '';
+            }
+            this.flush(sessionId)
+                .catch(() => { })
+                .finally(() => {
+                    // A restarted session may have a new transcript by now
+                    if (this.transcripts.get(sessionId) === transcript) {
+                        this.transcripts.delete(sessionId);
+                    }
+                });
+        });
+
+        setInterval(() => {
+            for (const sessionId of this.transcripts.keys()) {
+                this.flush(sessionId).catch(() => { });
+            }
+        }, FLUSH_INTERVAL_MS).unref();
+    }
+
+    private append(sessionId: string, data: string): void {
+        let transcript = this.transcripts.get(sessionId);
+        if (!transcript) {
+            transcript = { partial: '', lines: [], lastText: null };
+            this.transcripts.set(sessionId, transcript);
+        }
+
+        const rawLines = (transcript.partial + data.replace(CURSOR_MOVE_PATTERN, '\n')).split('\n');
+        transcript.partial = rawLines.pop() ?? '';
+        if (transcript.partial.length > MAX_LINE_LENGTH) {
+            rawLines.push(transcript.partial);
+            transcript.partial = '';
+        }
+
+        for (const raw of rawLines) {
+            this.addLine(sessionId, transcript, raw);
+        }
+    }
+
+    private addLine(sessionId: string, transcript: SessionTranscript, raw: string): void {
+        const { text, ansi } = renderLine(raw);
+        if (!text.trim() || text === transcript.lastText) return;
+        transcript.lastText = text;
+
+        const recording = ptyManager.getRecordingPosition(sessionId);
+        transcript.lines.push({
+            text,
+            ansi,
+            streamId: ptyManager.getStreamPosition(sessionId)?.streamId ?? '',
+            recordingId: recording?.recordingId ?? null,
+            recordingTime: recording ? Number(recording.time.toFixed(3)) : null,
+        });
+    }
+
+    /**
+     * Write a session's completed lines; flushes of one session run in order
+     */
+    private flush(sessionId: string): Promise<void> {
+        const transcript = this.transcripts.get(sessionId);
+        if (!transcript) return Promise.resolve();
+
+        const previous = this.queues.get(sessionId) ?? Promise.resolve();
+        const next = previous.catch(() => { }).then(async () => {
+            const lines = transcript.lines.splice(0);
+            if (lines.length === 0) return;
+
+            const last = await prisma.transcriptLine.aggregate({
+                where: { sessionId },
+                _max: { line: true },
+            });
+            const first = (last._max.line ?? 0) + 1;
+            await prisma.transcriptLine.createMany({
+                data: lines.map((line, index) => ({ ...line, sessionId, line: first + index })),
+            });
+        });
+
+        this.queues.set(sessionId, next);
+        next.finally(() => {
+            if (this.queues.get(sessionId) === next) {
+                this.queues.delete(sessionId);
+            }
+        }).catch(() => { });
+        return next;
+    }
+}
+
+export const transcriptService = new TranscriptService();
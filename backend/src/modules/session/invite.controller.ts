@@ -0,0 +1,21 @@
+import { Router, Request, Response } from 'express';
+import { sessionService } from './session.service.js';
+
+// Public: invite links are opened before the recipient has signed in
+const router = Router();
+
+// GET /invites/:token - Preview an invite
+router.get('/:token', async (req: Request<{ token: string }>, res: Response) => {
+    try {
+        const preview = await sessionService.previewInvite(req.params.token);
+        if (!preview) {
+            res.status(404).json({ error: 'Invalid invite token' });
+            return;
+        }
+        res.json(preview);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const inviteRouter = router;
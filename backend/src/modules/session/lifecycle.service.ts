@@ -0,0 +1,79 @@
+import { sessionService } from './session.service.js';
+import { ptyManager, SessionStateError } from '../terminal/pty-manager.js';
+import type { ProcessSignal } from '../terminal/pty-manager.js';
+import { headlessManager } from '../headless/headless-manager.js';
+import { quotaService } from '../quota/quota.service.js';
+
+/**
+ * Starts and stops the processes of sessions. Processes only run when
+ * started explicitly (or when a session is created), never by joining.
+ */
+export class LifecycleService {
+    async start(sessionId: string) {
+        const session = await sessionService.findById(sessionId);
+        if (!session) {
+            throw new SessionStateError('Session not found');
+        }
+        if (session.mode === 'HEADLESS') {
+            throw new SessionStateError('Headless sessions start when a message is sent');
+        }
+        if (ptyManager.exists(sessionId)) {
+            throw new SessionStateError('Session is already running');
+        }
+
+        const release = await quotaService.reserve(sessionId, session.ownerId);
+        try {
+            const launch = await sessionService.getLaunchOptions(sessionId);
+            // Another request may have started it while the profile loaded
+            if (ptyManager.exists(sessionId)) {
+                throw new SessionStateError('Session is already running');
+            }
+            // Set first: a process that exits right away records its exit after this
+            await sessionService.updateStatus(sessionId, 'ACTIVE');
+            try {
+                ptyManager.spawn(sessionId, launch);
+            } catch (error) {
+                // Unless a concurrent start won the race, nothing is running
+                if (!ptyManager.exists(sessionId)) {
+                    await sessionService.updateStatus(sessionId, session.status).catch(() => { });
+                }
+                throw error;
+            }
+        } finally {
+            release();
+        }
+    }
+
+    async stop(sessionId: string) {
+        if (headlessManager.exists(sessionId)) {
+            await headlessManager.stop(sessionId);
+            return;
+        }
+        if (!ptyManager.exists(sessionId)) {
+            throw new SessionStateError('Session is not running');
+        }
+        await ptyManager.stop(sessionId);
+    }
+
+    async restart(sessionId: string) {
+        await ptyManager.stop(sessionId);
+        await this.start(sessionId);
+    }
+
+    signal(sessionId: string, signal: ProcessSignal) {
+        ptyManager.signal(sessionId, signal);
+    }
+
+    /**
+     * End every process of a session that is being deleted, and wait until
+     * they have exited so its directories can be removed
+     */
+    async teardown(sessionId: string) {
+        await Promise.all([
+            ptyManager.stop(sessionId),
+            headlessManager.stop(sessionId),
+        ]);
+    }
+}
+
+export const lifecycleService = new LifecycleService();
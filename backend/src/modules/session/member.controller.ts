@@ -0,0 +1,124 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { memberService, MemberNotFoundError, MemberChangeError } from './member.service.js';
+import { sessionService } from './session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+import type { SessionRole } from '@prisma/client';
+
+// Mounted under /sessions/:id/members
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const updateRoleSchema = z.object({
+    role: z.enum(['VIEWER', 'OPERATOR']),
+});
+
+const transferSchema = z.object({
+    userId: z.string().uuid(),
+});
+
+interface SessionRequest extends AuthenticatedRequest {
+    sessionRole?: SessionRole | 'ADMIN';
+}
+
+// Any member (or admin) can see the members
+router.use(async (req: SessionRequest, res: Response, next: NextFunction) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+        req.sessionRole = role ?? 'ADMIN';
+        next();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Changing members requires the owner (or an admin)
+function requireOwner(req: SessionRequest, res: Response, next: NextFunction): void {
+    if (req.sessionRole !== 'OWNER' && req.sessionRole !== 'ADMIN') {
+        res.status(403).json({ error: 'Only the owner can manage members' });
+        return;
+    }
+    next();
+}
+
+// GET /sessions/:id/members - List members
+router.get('/', async (req: SessionRequest, res: Response) => {
+    try {
+        const members = await memberService.list(req.params.id);
+        res.json(members);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PATCH /sessions/:id/members/:userId - Change a member's role
+router.patch('/:userId', requireOwner, async (req: SessionRequest, res: Response) => {
+    try {
+        const { role } = updateRoleSchema.parse(req.body);
+        const member = await memberService.updateRole(req.params.id, req.params.userId, role);
+        res.json(member);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof MemberNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof MemberChangeError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /sessions/:id/members/:userId - Remove a member
+router.delete('/:userId', requireOwner, async (req: SessionRequest, res: Response) => {
+    try {
+        await memberService.remove(req.params.id, req.params.userId);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof MemberNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof MemberChangeError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/members/transfer - Hand the session to another member
+router.post('/transfer', requireOwner, async (req: SessionRequest, res: Response) => {
+    try {
+        const { userId } = transferSchema.parse(req.body);
+        await memberService.transferOwnership(req.params.id, userId);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof MemberNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof MemberChangeError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const memberRouter = router;
@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events';
+import { prisma } from '../../config/database.js';
+import type { SessionRole } from '@prisma/client';
+
+/**
+ * Thrown when a session or member to change does not exist
+ */
+export class MemberNotFoundError extends Error { }
+
+/**
+ * Thrown when a membership change is not allowed
+ */
+export class MemberChangeError extends Error { }
+
+/**
+ * Manages who belongs to a session and with which role.
+ * Emits 'change' (sessionId, userId, role | null) after a member's role
+ * changes or they are removed, so connected sockets can follow.
+ */
+export class MemberService extends EventEmitter {
+    async list(sessionId: string) {
+        return prisma.sessionMember.findMany({
+            where: { sessionId },
+            select: {
+                id: true,
+                role: true,
+                createdAt: true,
+                user: { select: { id: true, name: true, email: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * Change a member's role between VIEWER and OPERATOR
+     */
+    async updateRole(sessionId: string, userId: string, role: Exclude<SessionRole, 'OWNER'>) {
+        const member = await this.getMember(sessionId, userId);
+        if (member.role === 'OWNER') {
+            throw new MemberChangeError('Transfer ownership to change the owner\'s role');
+        }
+
+        const updated = await prisma.sessionMember.update({
+            where: { id: member.id },
+            data: { role },
+        });
+        this.emit('change', sessionId, userId, role);
+        return updated;
+    }
+
+    async remove(sessionId: string, userId: string) {
+        const member = await this.getMember(sessionId, userId);
+        if (member.role === 'OWNER') {
+            throw new MemberChangeError('The owner cannot be removed');
+        }
+
+        await prisma.sessionMember.delete({ where: { id: member.id } });
+        this.emit('change', sessionId, userId, null);
+    }
+
+    /**
+     * Make another member the owner; the previous owner stays as an operator
+     */
+    async transferOwnership(sessionId: string, newOwnerId: string) {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { ownerId: true },
+        });
+        if (!session) {
+            throw new MemberNotFoundError('Session not found');
+        }
+        if (session.ownerId === newOwnerId) {
+            throw new MemberChangeError('User already owns this session');
+        }
+        await this.getMember(sessionId, newOwnerId);
+
+        await prisma.$transaction([
+            prisma.session.update({
+                where: { id: sessionId },
+                data: { ownerId: newOwnerId },
+            }),
+            prisma.sessionMember.update({
+                where: { userId_sessionId: { userId: newOwnerId, sessionId } },
+                data: { role: 'OWNER' },
+            }),
+            prisma.sessionMember.update({
+                where: { userId_sessionId: { userId: session.ownerId, sessionId } },
+                data: { role: 'OPERATOR' },
+            }),
+        ]);
+        this.emit('change', sessionId, newOwnerId, 'OWNER');
+        this.emit('change', sessionId, session.ownerId, 'OPERATOR');
+    }
+
+    private async getMember(sessionId: string, userId: string) {
+        const member = await prisma.sessionMember.findUnique({
+            where: { userId_sessionId: { userId, sessionId } },
+        });
+        if (!member) {
+            throw new MemberNotFoundError('Member not found');
+        }
+        return member;
+    }
+}
+
+export const memberService = new MemberService();
@@ -1,6 +1,13 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { sessionService } from './session.service.js';
+import { sessionService, InviteNotFoundError, InviteError, AlreadyMemberError } from './session.service.js';
+import { recordingService } from '../recording/recording.service.js';
+import { profileService } from '../profile/profile.service.js';
+import { workspaceService, WorkspaceError } from '../workspace/workspace.service.js';
+import { lifecycleService } from './lifecycle.service.js';
+import { quotaService, QuotaExceededError } from '../quota/quota.service.js';
+import { ptyManager, PROCESS_SIGNALS, SessionStateError } from '../terminal/pty-manager.js';
+import { SandboxUidError } from '../terminal/sandbox.js';
 import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
 
 const router = Router();
@@ -11,27 +18,83 @@ router.use(authMiddleware);
 const createSessionSchema = z.object({
     name: z.string().min(1).max(100),
     description: z.string().max(500).optional(),
+    profileId: z.string().uuid().optional(),
+    mode: z.enum(['TERMINAL', 'HEADLESS']).default('TERMINAL'),
+    workspace: z.object({
+        repoPath: z.string().startsWith('/', 'Repository path must be absolute'),
+        branch: z.string().min(1).max(200),
+    }).optional(),
+});
+
+const deleteSessionSchema = z.object({
+    workspace: z.enum(['keep', 'archive', 'remove']).default('keep'),
 });
 
 const createInviteSchema = z.object({
     role: z.enum(['VIEWER', 'OPERATOR']),
     expiresInHours: z.number().min(1).max(168).optional(), // max 1 week
+    maxUses: z.number().int().min(1).max(1000).nullable().optional(), // null = unlimited
+    email: z.string().email().optional(),
 });
 
+const signalSchema = z.object({
+    signal: z.enum(PROCESS_SIGNALS),
+});
+
+// Controlling a session's processes needs an operator, the owner or an admin
+async function canOperate(req: AuthenticatedRequest): Promise<boolean> {
+    const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+    return role === 'OWNER' || role === 'OPERATOR' || req.user!.role === 'ADMIN';
+}
+
 // POST /sessions - Create new session
 router.post('/', async (req: AuthenticatedRequest, res: Response) => {
     try {
         const input = createSessionSchema.parse(req.body);
+
+        if (input.profileId && !(await profileService.findById(input.profileId))) {
+            res.status(400).json({ error: 'Unknown launch profile' });
+            return;
+        }
+
+        // Checked up front so no session is created that could not run
+        await quotaService.assertCanStart(req.user!.id);
+
         const session = await sessionService.create({
             ...input,
             ownerId: req.user!.id,
         });
+
+        // Terminal sessions start right away; headless ones with their first message
+        if (session.mode === 'TERMINAL') {
+            try {
+                await lifecycleService.start(session.id);
+            } catch (error) {
+                // A session that could not start (e.g. a concurrent start took the
+                // last slot, or no sandbox user is free) is not kept, nor its new worktree
+                console.error(`Failed to start session ${session.id}:`, error);
+                await sessionService.delete(session.id, 'remove');
+                throw error;
+            }
+        }
         res.status(201).json(session);
     } catch (error) {
         if (error instanceof z.ZodError) {
             res.status(400).json({ error: 'Validation error', details: error.errors });
             return;
         }
+        if (error instanceof QuotaExceededError) {
+            res.status(429).json({ error: error.message });
+            return;
+        }
+        if (error instanceof SandboxUidError) {
+            res.status(503).json({ error: error.message });
+            return;
+        }
+        if (error instanceof WorkspaceError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
         res.status(500).json({ error: 'Internal server error' });
     }
 });
@@ -63,8 +126,168 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
             return;
         }
 
-        res.json({ session, userRole: role });
+        const workspace = session.workspacePath
+            ? await workspaceService.getStatus(session.workspacePath)
+            : null;
+
+        res.json({ session, userRole: role, workspace });
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/diff - Get changes in the working directory since session start
+router.get('/:id/diff', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (!role && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Access denied' });
+            return;
+        }
+
+        const diff = await sessionService.getDiff(req.params.id);
+        if (!diff) {
+            res.status(404).json({ error: 'Working directory is not a git repository' });
+            return;
+        }
+        res.json(diff);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/start - Start the session's process
+router.post('/:id/start', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot start sessions' });
+            return;
+        }
+
+        await lifecycleService.start(req.params.id);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            res.status(429).json({ error: error.message });
+            return;
+        }
+        if (error instanceof SandboxUidError) {
+            res.status(503).json({ error: error.message });
+            return;
+        }
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/stop - Stop the session's processes
+router.post('/:id/stop', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot stop sessions' });
+            return;
+        }
+
+        await lifecycleService.stop(req.params.id);
+        res.status(204).send();
     } catch (error) {
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/restart - Stop and start the session's process
+router.post('/:id/restart', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot restart sessions' });
+            return;
+        }
+
+        await lifecycleService.restart(req.params.id);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            res.status(429).json({ error: error.message });
+            return;
+        }
+        if (error instanceof SandboxUidError) {
+            res.status(503).json({ error: error.message });
+            return;
+        }
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/signal - Send SIGINT, SIGTERM or SIGKILL to the session's processes
+router.post('/:id/signal', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = signalSchema.parse(req.body);
+
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot signal sessions' });
+            return;
+        }
+
+        lifecycleService.signal(req.params.id, input.signal);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/pause - Suspend the session's processes
+router.post('/:id/pause', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot pause sessions' });
+            return;
+        }
+
+        ptyManager.pause(req.params.id);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/resume - Continue a paused session
+router.post('/:id/resume', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!(await canOperate(req))) {
+            res.status(403).json({ error: 'Viewers cannot resume sessions' });
+            return;
+        }
+
+        ptyManager.resume(req.params.id);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof SessionStateError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
         res.status(500).json({ error: 'Internal server error' });
     }
 });
@@ -85,11 +308,17 @@ router.post('/:id/invite', async (req: AuthenticatedRequest, res: Response) => {
             sessionId: req.params.id,
             role: input.role,
             expiresInHours: input.expiresInHours,
+            maxUses: input.maxUses,
+            email: input.email,
+            createdById: req.user!.id,
         });
 
         res.status(201).json({
+            id: invite.id,
             token: invite.token,
             expiresAt: invite.expiresAt,
+            maxUses: invite.maxUses,
+            email: invite.email,
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -100,13 +329,53 @@ router.post('/:id/invite', async (req: AuthenticatedRequest, res: Response) => {
     }
 });
 
+// GET /sessions/:id/invites - List invites and their redemptions
+router.get('/:id/invites', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (role !== 'OWNER' && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Only owners can manage invites' });
+            return;
+        }
+
+        const invites = await sessionService.listInvites(req.params.id);
+        res.json(invites);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /sessions/:id/invites/:inviteId - Revoke an invite
+router.delete('/:id/invites/:inviteId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (role !== 'OWNER' && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Only owners can manage invites' });
+            return;
+        }
+
+        await sessionService.revokeInvite(req.params.id, req.params.inviteId);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof InviteNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 // POST /sessions/join/:token - Join via invite
 router.post('/join/:token', async (req: AuthenticatedRequest, res: Response) => {
     try {
-        await sessionService.redeemInvite(req.params.token, req.user!.id);
-        res.json({ message: 'Successfully joined session' });
+        const member = await sessionService.redeemInvite(req.params.token, req.user!);
+        res.json({ message: 'Successfully joined session', sessionId: member.sessionId });
     } catch (error) {
-        if (error instanceof Error) {
+        if (error instanceof AlreadyMemberError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        if (error instanceof InviteError) {
             res.status(400).json({ error: error.message });
             return;
         }
@@ -114,18 +383,26 @@ router.post('/join/:token', async (req: AuthenticatedRequest, res: Response) =>
     }
 });
 
-// DELETE /sessions/:id - Delete session
+// DELETE /sessions/:id?workspace=keep|archive|remove - Delete session
 router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
     try {
+        const input = deleteSessionSchema.parse(req.query);
+
         const role = await sessionService.getUserRole(req.params.id, req.user!.id);
         if (role !== 'OWNER' && req.user!.role !== 'ADMIN') {
             res.status(403).json({ error: 'Only owners can delete sessions' });
             return;
         }
 
-        await sessionService.delete(req.params.id);
+        await lifecycleService.teardown(req.params.id);
+        await sessionService.delete(req.params.id, input.workspace);
+        await recordingService.removeAll(req.params.id);
         res.status(204).send();
     } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
         res.status(500).json({ error: 'Internal server error' });
     }
 });
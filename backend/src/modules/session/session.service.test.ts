@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface Row {
+    id: string;
+    [key: string]: unknown;
+}
+
+// Just enough of the Prisma client for invites and members, kept in memory
+const db = vi.hoisted(() => {
+    const tables = {
+        invites: [] as Row[],
+        members: [] as Row[],
+        redemptions: [] as Row[],
+    };
+    let nextId = 1;
+    const insert = (table: Row[], data: Record<string, unknown>) => {
+        const row = { id: `row-${nextId++}`, ...data };
+        table.push(row);
+        return row;
+    };
+    const memberKey = (where: { userId_sessionId: { userId: string; sessionId: string } }) =>
+        (row: Row) => row.userId === where.userId_sessionId.userId && row.sessionId === where.userId_sessionId.sessionId;
+
+    const client = {
+        inviteToken: {
+            findUnique: async ({ where }: { where: { token: string } }) =>
+                tables.invites.find(row => row.token === where.token) ?? null,
+            update: async ({ where }: { where: { id: string } }) => {
+                const invite = tables.invites.find(row => row.id === where.id)!;
+                invite.useCount = (invite.useCount as number) + 1;
+                return invite;
+            },
+        },
+        sessionMember: {
+            findUnique: async ({ where }: { where: { userId_sessionId: { userId: string; sessionId: string } } }) =>
+                tables.members.find(memberKey(where)) ?? null,
+            create: async ({ data }: { data: Record<string, unknown> }) => insert(tables.members, data),
+            delete: async ({ where }: { where: { id: string } }) => {
+                tables.members = tables.members.filter(row => row.id !== where.id);
+            },
+        },
+        inviteRedemption: {
+            findUnique: async ({ where }: { where: { inviteId_userId: { inviteId: string; userId: string } } }) =>
+                tables.redemptions.find(row =>
+                    row.inviteId === where.inviteId_userId.inviteId && row.userId === where.inviteId_userId.userId) ?? null,
+            create: async ({ data }: { data: Record<string, unknown> }) => {
+                if (tables.redemptions.some(row => row.inviteId === data.inviteId && row.userId === data.userId)) {
+                    throw new Error('Unique constraint failed on the fields: (`inviteId`,`userId`)');
+                }
+                return insert(tables.redemptions, data);
+            },
+        },
+        $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+    };
+    return { tables, client, insert };
+});
+
+vi.mock('../../config/database.js', () => ({ prisma: db.client }));
+
+const { sessionService, AlreadyMemberError, InviteError } = await import('./session.service.js');
+const { memberService } = await import('./member.service.js');
+
+const guest = { id: 'user-guest', email: 'guest@example.com' };
+
+describe('SessionService.redeemInvite', () => {
+    beforeEach(() => {
+        db.tables.invites = [];
+        db.tables.members = [];
+        db.tables.redemptions = [];
+        db.insert(db.tables.invites, {
+            token: 'multi-use',
+            role: 'OPERATOR',
+            sessionId: 'session-1',
+            expiresAt: new Date(Date.now() + 60_000),
+            revokedAt: null,
+            maxUses: null,
+            useCount: 0,
+            email: null,
+        });
+    });
+
+    it('adds the user with the invite role and counts the use', async () => {
+        const member = await sessionService.redeemInvite('multi-use', guest);
+
+        expect(member).toMatchObject({ userId: guest.id, sessionId: 'session-1', role: 'OPERATOR' });
+        expect(db.tables.invites[0].useCount).toBe(1);
+        expect(db.tables.redemptions).toHaveLength(1);
+    });
+
+    it('refuses a second redemption by a member', async () => {
+        await sessionService.redeemInvite('multi-use', guest);
+
+        await expect(sessionService.redeemInvite('multi-use', guest)).rejects.toBeInstanceOf(AlreadyMemberError);
+    });
+
+    it('refuses a removed member redeeming the same invite again', async () => {
+        await sessionService.redeemInvite('multi-use', guest);
+        await memberService.remove('session-1', guest.id);
+
+        await expect(sessionService.redeemInvite('multi-use', guest)).rejects.toBeInstanceOf(InviteError);
+        expect(db.tables.members).toHaveLength(0);
+        expect(db.tables.invites[0].useCount).toBe(1);
+    });
+});
@@ -1,25 +1,92 @@
 import { prisma } from '../../config/database.js';
-import type { SessionRole, SessionStatus } from '@prisma/client';
-import { randomBytes } from 'crypto';
+import type { SessionMode, SessionRole, SessionStatus, SizePolicy } from '@prisma/client';
+import { randomBytes, randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { env } from '../../config/env.js';
+import { profileService } from '../profile/profile.service.js';
+import { quotaService } from '../quota/quota.service.js';
+import { workspaceService } from '../workspace/workspace.service.js';
+import type { WorkspaceCleanup, WorkspaceDiff } from '../workspace/workspace.service.js';
+import type { LaunchOptions } from '../terminal/pty-manager.js';
+import { resolveSandboxPolicy, releaseSandboxUid } from '../terminal/sandbox.js';
 
 export interface CreateSessionInput {
     name: string;
     description?: string;
+    profileId?: string;
+    mode?: SessionMode;
+    workspace?: { repoPath: string; branch: string };
     ownerId: string;
 }
 
+export interface SizePolicySetting {
+    policy: SizePolicy;
+    // Only set for FIXED
+    cols: number | null;
+    rows: number | null;
+}
+
 export interface InviteInput {
     sessionId: string;
     role: SessionRole;
     expiresInHours?: number;
+    // null = unlimited
+    maxUses?: number | null;
+    email?: string;
+    createdById: string;
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'used';
+
+// The backend's own directory (holding .env and the database), whether run from src or dist
+const SERVER_DIRS = [process.cwd(), fileURLToPath(new URL('../../..', import.meta.url))];
+
+/**
+ * Thrown when a session has no directory members may browse or write to
+ */
+export class WorkingDirectoryError extends Error { }
+
+/**
+ * Thrown when an invite to revoke does not exist
+ */
+export class InviteNotFoundError extends Error { }
+
+/**
+ * Thrown when an invite cannot be redeemed
+ */
+export class InviteError extends Error { }
+
+/**
+ * Thrown when redeeming an invite for a session the user already belongs to
+ */
+export class AlreadyMemberError extends Error { }
+
+function isWithin(parent: string, target: string): boolean {
+    const relative = path.relative(parent, target);
+    return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
 }
 
 export class SessionService {
     async create(input: CreateSessionInput) {
+        const sessionId = randomUUID();
+
+        // The worktree is named after the session, so create it first
+        const workspace = input.workspace
+            ? await workspaceService.create(sessionId, input.workspace.repoPath, input.workspace.branch)
+            : null;
+
         const session = await prisma.session.create({
             data: {
+                id: sessionId,
                 name: input.name,
                 description: input.description,
+                profileId: input.profileId,
+                mode: input.mode,
+                workspaceRepo: workspace?.repoPath,
+                workspaceBranch: workspace?.branch,
+                workspacePath: workspace?.path,
                 ownerId: input.ownerId,
                 members: {
                     create: {
@@ -32,6 +99,11 @@ export class SessionService {
                 owner: { select: { id: true, name: true, email: true } },
                 members: { include: { user: { select: { id: true, name: true } } } },
             },
+        }).catch(async (error) => {
+            if (workspace) {
+                await workspaceService.cleanup(workspace, 'remove').catch(() => { });
+            }
+            throw error;
         });
 
         return session;
@@ -44,6 +116,7 @@ export class SessionService {
                 owner: { select: { id: true, name: true, email: true } },
                 members: { include: { user: { select: { id: true, name: true } } } },
                 contextFiles: { select: { id: true, filename: true, mimeType: true, createdAt: true } },
+                profile: { select: { id: true, name: true } },
             },
         });
     }
@@ -64,6 +137,120 @@ export class SessionService {
         });
     }
 
+    /**
+     * Resolve what to spawn for a session from its launch profile
+     */
+    async getLaunchOptions(sessionId: string): Promise<LaunchOptions> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { profileId: true, workspacePath: true, ownerId: true, sizePolicy: true, fixedCols: true, fixedRows: true },
+        });
+        const profile = session?.profileId ? await profileService.findById(session.profileId) : null;
+        const scratchDir = this.getScratchDir(sessionId);
+        const launch = profileService.toLaunchOptions(profile, scratchDir);
+
+        // A dedicated worktree takes precedence over the profile's directory
+        if (session?.workspacePath) {
+            launch.cwd = session.workspacePath;
+        }
+        if (session) {
+            launch.limits = await quotaService.getSessionLimits(sessionId);
+        }
+        if (session?.sizePolicy === 'FIXED' && session.fixedCols && session.fixedRows) {
+            launch.cols = session.fixedCols;
+            launch.rows = session.fixedRows;
+        }
+        if (session) {
+            launch.sandbox = await resolveSandboxPolicy(sessionId, session.ownerId);
+        }
+        if (launch.cwd === scratchDir) {
+            await fs.mkdir(scratchDir, { recursive: true, mode: 0o700 });
+            if (launch.sandbox?.uid !== undefined && process.getuid?.() === 0) {
+                await fs.chown(scratchDir, launch.sandbox.uid, launch.sandbox.gid ?? launch.sandbox.uid);
+            }
+        }
+        return launch;
+    }
+
+    /**
+     * Real path of the session's workspace or its profile's explicit directory,
+     * the only places members may browse or write files. Scratch directories
+     * and anything overlapping the backend's own directory are refused.
+     */
+    async getSharedDirectory(sessionId: string): Promise<string> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { workspacePath: true, profile: { select: { cwd: true } } },
+        });
+        const directory = session?.workspacePath ?? session?.profile?.cwd;
+        if (!directory) {
+            throw new WorkingDirectoryError('Session has no workspace or profile directory');
+        }
+
+        let realDirectory: string;
+        try {
+            realDirectory = await fs.realpath(directory);
+        } catch {
+            throw new WorkingDirectoryError('Working directory does not exist');
+        }
+
+        const serverDirs = await Promise.all(SERVER_DIRS.map(dir => fs.realpath(dir).catch(() => dir)));
+        if (serverDirs.some(dir => isWithin(dir, realDirectory) || isWithin(realDirectory, dir))) {
+            throw new WorkingDirectoryError('Working directory overlaps the server directory');
+        }
+        return realDirectory;
+    }
+
+    /**
+     * Private working directory of a session with neither a workspace nor a profile directory
+     */
+    getScratchDir(sessionId: string): string {
+        return path.resolve(env.SCRATCH_DIR, sessionId);
+    }
+
+    /**
+     * Remember the commit the working directory is at the first time the
+     * session starts, so the live diff covers everything since then
+     */
+    async recordBaseCommit(sessionId: string, cwd: string) {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { baseCommit: true },
+        });
+        if (!session || session.baseCommit) {
+            return;
+        }
+
+        const head = await workspaceService.getHead(cwd);
+        if (head) {
+            await prisma.session.update({
+                where: { id: sessionId },
+                data: { baseCommit: head },
+            });
+        }
+    }
+
+    /**
+     * Diff the session's working directory against its base commit.
+     * Returns null if the working directory is not a git repository.
+     */
+    async getDiff(sessionId: string): Promise<WorkspaceDiff | null> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { baseCommit: true },
+        });
+        if (!session) {
+            return null;
+        }
+
+        const launch = await this.getLaunchOptions(sessionId);
+        const baseCommit = session.baseCommit ?? await workspaceService.getHead(launch.cwd);
+        if (!baseCommit) {
+            return null;
+        }
+        return workspaceService.getDiff(launch.cwd, baseCommit);
+    }
+
     async getUserRole(sessionId: string, userId: string): Promise<SessionRole | null> {
         const member = await prisma.sessionMember.findUnique({
             where: { userId_sessionId: { userId, sessionId } },
@@ -71,6 +258,33 @@ export class SessionService {
         return member?.role ?? null;
     }
 
+    async getMode(sessionId: string): Promise<SessionMode | null> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { mode: true },
+        });
+        return session?.mode ?? null;
+    }
+
+    async getSizePolicy(sessionId: string): Promise<SizePolicySetting> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { sizePolicy: true, fixedCols: true, fixedRows: true },
+        });
+        return {
+            policy: session?.sizePolicy ?? 'DRIVER',
+            cols: session?.fixedCols ?? null,
+            rows: session?.fixedRows ?? null,
+        };
+    }
+
+    async updateSizePolicy(sessionId: string, setting: SizePolicySetting) {
+        return prisma.session.update({
+            where: { id: sessionId },
+            data: { sizePolicy: setting.policy, fixedCols: setting.cols, fixedRows: setting.rows },
+        });
+    }
+
     async updateStatus(sessionId: string, status: SessionStatus) {
         return prisma.session.update({
             where: { id: sessionId },
@@ -78,12 +292,57 @@ export class SessionService {
         });
     }
 
-    async updateOutputBuffer(sessionId: string, output: string) {
-        // Keep only last 10000 chars
-        const truncated = output.slice(-10000);
+    async recordExit(sessionId: string, exitCode: number) {
         return prisma.session.update({
             where: { id: sessionId },
-            data: { outputBuffer: truncated },
+            data: { status: 'TERMINATED', exitCode, exitedAt: new Date() },
+        });
+    }
+
+    /**
+     * Mark sessions as terminated when their PTY is no longer running, and
+     * live ones as paused or active as the PTY host reports them
+     */
+    async reconcileStatuses(liveSessionIds: string[], pausedSessionIds: string[]) {
+        await prisma.session.updateMany({
+            where: {
+                status: 'PAUSED',
+                id: { in: liveSessionIds.filter(id => !pausedSessionIds.includes(id)) },
+            },
+            data: { status: 'ACTIVE' },
+        });
+        await prisma.session.updateMany({
+            where: {
+                status: 'ACTIVE',
+                id: { in: pausedSessionIds },
+            },
+            data: { status: 'PAUSED' },
+        });
+        return prisma.session.updateMany({
+            where: {
+                status: { in: ['ACTIVE', 'PAUSED'] },
+                id: { notIn: liveSessionIds },
+            },
+            data: { status: 'TERMINATED' },
+        });
+    }
+
+    /**
+     * The last persisted screen, shown while the session is not running
+     */
+    async getOutputBuffer(sessionId: string): Promise<string | null> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { outputBuffer: true },
+        });
+        return session?.outputBuffer ?? null;
+    }
+
+    async updateOutputBuffer(sessionId: string, snapshot: string) {
+        // Snapshot is already bounded by the screen's scrollback; truncating would break escape sequences
+        return prisma.session.update({
+            where: { id: sessionId },
+            data: { outputBuffer: snapshot },
         });
     }
 
@@ -98,44 +357,147 @@ export class SessionService {
                 sessionId: input.sessionId,
                 role: input.role,
                 expiresAt,
+                maxUses: input.maxUses === undefined ? 1 : input.maxUses,
+                email: input.email?.toLowerCase(),
+                createdById: input.createdById,
+            },
+        });
+    }
+
+    /**
+     * List a session's invites, newest first, with who created and redeemed them
+     */
+    async listInvites(sessionId: string) {
+        const invites = await prisma.inviteToken.findMany({
+            where: { sessionId },
+            include: {
+                createdBy: { select: { id: true, name: true } },
+                redemptions: {
+                    select: { createdAt: true, user: { select: { id: true, name: true, email: true } } },
+                    orderBy: { createdAt: 'asc' },
+                },
             },
+            orderBy: { createdAt: 'desc' },
         });
+        return invites.map(invite => ({ ...invite, status: this.getInviteStatus(invite) }));
     }
 
-    async redeemInvite(token: string, userId: string) {
+    /**
+     * What an invite link leads to, shown before signing in to redeem it
+     */
+    async previewInvite(token: string) {
         const invite = await prisma.inviteToken.findUnique({
             where: { token },
+            include: {
+                session: { select: { id: true, name: true, description: true } },
+                createdBy: { select: { name: true } },
+            },
         });
-
         if (!invite) {
-            throw new Error('Invalid invite token');
+            return null;
         }
 
-        if (invite.usedAt) {
-            throw new Error('Invite already used');
-        }
+        return {
+            sessionId: invite.session.id,
+            sessionName: invite.session.name,
+            sessionDescription: invite.session.description,
+            role: invite.role,
+            inviterName: invite.createdBy?.name ?? null,
+            expiresAt: invite.expiresAt,
+            status: this.getInviteStatus(invite),
+            // Whether only one email address may redeem it (the address itself is not shown)
+            emailRestricted: invite.email !== null,
+        };
+    }
 
-        if (invite.expiresAt < new Date()) {
-            throw new Error('Invite expired');
+    async revokeInvite(sessionId: string, inviteId: string) {
+        const result = await prisma.inviteToken.updateMany({
+            where: { id: inviteId, sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        if (result.count === 0) {
+            throw new InviteNotFoundError('Invite not found');
         }
+    }
 
-        // Mark invite as used
-        await prisma.inviteToken.update({
-            where: { id: invite.id },
-            data: { usedAt: new Date() },
-        });
+    async redeemInvite(token: string, user: { id: string; email: string }) {
+        return prisma.$transaction(async (tx) => {
+            const invite = await tx.inviteToken.findUnique({
+                where: { token },
+            });
 
-        // Add user as member
-        return prisma.sessionMember.create({
-            data: {
-                userId,
-                sessionId: invite.sessionId,
-                role: invite.role,
-            },
+            if (!invite) {
+                throw new InviteError('Invalid invite token');
+            }
+
+            switch (this.getInviteStatus(invite)) {
+                case 'revoked':
+                    throw new InviteError('Invite has been revoked');
+                case 'expired':
+                    throw new InviteError('Invite expired');
+                case 'used':
+                    throw new InviteError('Invite already used');
+            }
+
+            if (invite.email && invite.email !== user.email.toLowerCase()) {
+                throw new InviteError('This invite is for a different email address');
+            }
+
+            const member = await tx.sessionMember.findUnique({
+                where: { userId_sessionId: { userId: user.id, sessionId: invite.sessionId } },
+            });
+            if (member) {
+                throw new AlreadyMemberError('You are already a member of this session');
+            }
+
+            // A removed member cannot come back through the same link
+            const redemption = await tx.inviteRedemption.findUnique({
+                where: { inviteId_userId: { inviteId: invite.id, userId: user.id } },
+            });
+            if (redemption) {
+                throw new InviteError('You have already used this invite');
+            }
+
+            // Count the use and record who redeemed it
+            await tx.inviteToken.update({
+                where: { id: invite.id },
+                data: { useCount: { increment: 1 } },
+            });
+            await tx.inviteRedemption.create({
+                data: { inviteId: invite.id, userId: user.id },
+            });
+
+            // Add user as member
+            return tx.sessionMember.create({
+                data: {
+                    userId: user.id,
+                    sessionId: invite.sessionId,
+                    role: invite.role,
+                },
+            });
         });
     }
 
-    async delete(sessionId: string) {
+    private getInviteStatus(invite: { revokedAt: Date | null; expiresAt: Date; maxUses: number | null; useCount: number }): InviteStatus {
+        if (invite.revokedAt) return 'revoked';
+        if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return 'used';
+        if (invite.expiresAt < new Date()) return 'expired';
+        return 'active';
+    }
+
+    async delete(sessionId: string, workspaceCleanup: WorkspaceCleanup = 'keep') {
+        const session = await prisma.session.findUnique({ where: { id: sessionId } });
+
+        if (session?.workspaceRepo && session.workspaceBranch && session.workspacePath) {
+            await workspaceService.cleanup({
+                repoPath: session.workspaceRepo,
+                branch: session.workspaceBranch,
+                path: session.workspacePath,
+            }, workspaceCleanup);
+        }
+        await fs.rm(this.getScratchDir(sessionId), { recursive: true, force: true });
+        await releaseSandboxUid(sessionId);
+
         return prisma.session.delete({
             where: { id: sessionId },
         });
@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { shareService, ShareLinkNotFoundError } from './share.service.js';
+import { sessionService } from '../session/session.service.js';
+import { authMiddleware, AuthenticatedRequest } from '../../middleware/auth.middleware.js';
+
+// Mounted under /sessions/:id/shares
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const createShareSchema = z.object({
+    passphrase: z.string().min(4).max(200).optional(),
+    expiresInHours: z.number().min(1).max(720).optional(), // max 30 days
+});
+
+// Share links are managed by the owner (or an admin)
+router.use(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+        const role = await sessionService.getUserRole(req.params.id, req.user!.id);
+        if (role !== 'OWNER' && req.user!.role !== 'ADMIN') {
+            res.status(403).json({ error: 'Only owners can manage share links' });
+            return;
+        }
+        next();
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /sessions/:id/shares - List share links
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const shareLinks = await shareService.list(req.params.id);
+        res.json(shareLinks);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /sessions/:id/shares - Create a share link
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const input = createShareSchema.parse(req.body);
+        const shareLink = await shareService.create({
+            ...input,
+            sessionId: req.params.id,
+            createdById: req.user!.id,
+        });
+        res.status(201).json(shareLink);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation error', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /sessions/:id/shares/:shareId - Revoke a share link
+router.delete('/:shareId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        await shareService.revoke(req.params.id, req.params.shareId);
+        res.status(204).send();
+    } catch (error) {
+        if (error instanceof ShareLinkNotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const shareRouter = router;
+
+// Public: opened by guests without an account
+const publicRouter = Router();
+
+// GET /share/:token - Preview a share link
+publicRouter.get('/:token', async (req: Request<{ token: string }>, res: Response) => {
+    try {
+        const preview = await shareService.preview(req.params.token);
+        if (!preview) {
+            res.status(404).json({ error: 'Invalid share link' });
+            return;
+        }
+        res.json(preview);
+    } catch (error) {
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export const publicShareRouter = publicRouter;
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'events';
+import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { prisma } from '../../config/database.js';
+
+const SALT_ROUNDS = 12;
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLinkInput {
+    sessionId: string;
+    passphrase?: string;
+    // Omitted = until revoked
+    expiresInHours?: number;
+    createdById: string;
+}
+
+// Public fields of a share link; the passphrase hash never leaves this service
+const SHARE_LINK_FIELDS = {
+    id: true,
+    token: true,
+    expiresAt: true,
+    revokedAt: true,
+    createdAt: true,
+    passphraseHash: true,
+    createdBy: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Thrown when a share link to revoke does not exist
+ */
+export class ShareLinkNotFoundError extends Error { }
+
+/**
+ * Anonymous read-only access to a session through a link.
+ * Emits 'revoke' (shareLinkId) so connected guests can be disconnected.
+ */
+export class ShareService extends EventEmitter {
+    async create(input: ShareLinkInput) {
+        const expiresAt = input.expiresInHours
+            ? new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000)
+            : null;
+
+        const shareLink = await prisma.shareLink.create({
+            data: {
+                token: randomBytes(24).toString('hex'),
+                sessionId: input.sessionId,
+                passphraseHash: input.passphrase ? await bcrypt.hash(input.passphrase, SALT_ROUNDS) : null,
+                expiresAt,
+                createdById: input.createdById,
+            },
+            select: SHARE_LINK_FIELDS,
+        });
+        return this.toPublic(shareLink);
+    }
+
+    async list(sessionId: string) {
+        const shareLinks = await prisma.shareLink.findMany({
+            where: { sessionId },
+            select: SHARE_LINK_FIELDS,
+            orderBy: { createdAt: 'desc' },
+        });
+        return shareLinks.map(shareLink => this.toPublic(shareLink));
+    }
+
+    async revoke(sessionId: string, shareLinkId: string) {
+        const result = await prisma.shareLink.updateMany({
+            where: { id: shareLinkId, sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        if (result.count === 0) {
+            throw new ShareLinkNotFoundError('Share link not found');
+        }
+        this.emit('revoke', shareLinkId);
+    }
+
+    /**
+     * What a share link shows before connecting
+     */
+    async preview(token: string) {
+        const shareLink = await prisma.shareLink.findUnique({
+            where: { token },
+            include: { session: { select: { id: true, name: true, mode: true } } },
+        });
+        if (!shareLink) {
+            return null;
+        }
+
+        return {
+            sessionId: shareLink.session.id,
+            sessionName: shareLink.session.name,
+            mode: shareLink.session.mode,
+            requiresPassphrase: shareLink.passphraseHash !== null,
+            expiresAt: shareLink.expiresAt,
+            status: this.getStatus(shareLink),
+        };
+    }
+
+    /**
+     * Check a share link and passphrase for a guest connection. Guests must
+     * be disconnected once `expiresAt` has passed.
+     */
+    async authorize(token: string, passphrase?: string): Promise<{ shareLinkId: string; sessionId: string; expiresAt: Date | null }> {
+        const shareLink = await prisma.shareLink.findUnique({ where: { token } });
+        if (!shareLink || this.getStatus(shareLink) !== 'active') {
+            throw new Error('Invalid share link');
+        }
+
+        if (shareLink.passphraseHash) {
+            if (!passphrase) {
+                throw new Error('Passphrase required');
+            }
+            if (!(await bcrypt.compare(passphrase, shareLink.passphraseHash))) {
+                throw new Error('Incorrect passphrase');
+            }
+        }
+
+        return { shareLinkId: shareLink.id, sessionId: shareLink.sessionId, expiresAt: shareLink.expiresAt };
+    }
+
+    private getStatus(shareLink: { revokedAt: Date | null; expiresAt: Date | null }): ShareStatus {
+        if (shareLink.revokedAt) return 'revoked';
+        if (shareLink.expiresAt && shareLink.expiresAt < new Date()) return 'expired';
+        return 'active';
+    }
+
+    private toPublic<T extends { passphraseHash: string | null; revokedAt: Date | null; expiresAt: Date | null }>(shareLink: T) {
+        const { passphraseHash, ...rest } = shareLink;
+        return { ...rest, hasPassphrase: passphraseHash !== null, status: this.getStatus(shareLink) };
+    }
+}
+
+export const shareService = new ShareService();
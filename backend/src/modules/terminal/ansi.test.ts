@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ansiToHtml, escapeHtml, splitAnsi, stripAnsi } from './ansi.js';
+
+describe('stripAnsi', () => {
+    it('removes colors, cursor movement, titles and charset switches', () => {
+        expect(stripAnsi('\x1b[1;31merror\x1b[0m: \x1b[2K\x1b[10;1Hdone')).toBe('error: done');
+        expect(stripAnsi('\x1b]0;my title\x07prompt$ \x1b]8;;http://x\x1b\\link')).toBe('prompt$ link');
+        expect(stripAnsi('\x1b(B\x1b=\x1b[?1049htext')).toBe('text');
+    });
+
+    it('leaves plain text alone', () => {
+        expect(stripAnsi('a [31m b')).toBe('a [31m b');
+    });
+});
+
+describe('splitAnsi', () => {
+    it('puts escape sequences at odd indexes', () => {
+        expect(splitAnsi('a\x1b[31mb\x1b[0m')).toEqual(['a', '\x1b[31m', 'b', '\x1b[0m', '']);
+    });
+});
+
+describe('escapeHtml', () => {
+    it('escapes markup and attribute quotes', () => {
+        expect(escapeHtml('<a href="x">&</a>')).toBe('&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+    });
+});
+
+describe('ansiToHtml', () => {
+    it('returns escaped plain text without spans', () => {
+        expect(ansiToHtml('1 < 2 && "ok"')).toBe('1 &lt; 2 &amp;&amp; &quot;ok&quot;');
+    });
+
+    it('styles text with the standard and bright colors', () => {
+        expect(ansiToHtml('\x1b[31mred\x1b[0m plain')).toBe('<span style="color:#cd3131">red</span> plain');
+        expect(ansiToHtml('\x1b[1;94;42mx')).toBe('<span style="color:#3b8eea;background-color:#0dbc79;font-weight:bold">x</span>');
+    });
+
+    it('supports 256 colors and true color', () => {
+        expect(ansiToHtml('\x1b[38;5;196mx')).toBe('<span style="color:#ff0000">x</span>');
+        expect(ansiToHtml('\x1b[38;5;232mx')).toBe('<span style="color:#080808">x</span>');
+        expect(ansiToHtml('\x1b[48;2;1;2;3mx')).toBe('<span style="background-color:#010203">x</span>');
+    });
+
+    it('swaps colors for inverse video', () => {
+        expect(ansiToHtml('\x1b[7mx')).toBe('<span style="color:#1e1e1e;background-color:#d4d4d4">x</span>');
+    });
+
+    it('resets single attributes and the whole style', () => {
+        expect(ansiToHtml('\x1b[1;3ma\x1b[23mb\x1b[mc'))
+            .toBe('<span style="font-weight:bold;font-style:italic">a</span><span style="font-weight:bold">b</span>c');
+        expect(ansiToHtml('\x1b[32ma\x1b[39mb')).toBe('<span style="color:#0dbc79">a</span>b');
+    });
+
+    it('drops other escape sequences and escapes text inside spans', () => {
+        expect(ansiToHtml('\x1b[31m<\x1b[2Kb>\x1b]0;t\x07')).toBe('<span style="color:#cd3131">&lt;b&gt;</span>');
+    });
+});
@@ -0,0 +1,140 @@
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[=>78]/g;
+const SGR_PATTERN = /\x1b\[([0-9;]*)m/g;
+
+// Colors used where the output sets none (and for inverse video)
+export const DEFAULT_FOREGROUND = '#d4d4d4';
+export const DEFAULT_BACKGROUND = '#1e1e1e';
+
+// The 16 standard and bright colors, as the web terminal shows them
+const PALETTE = [
+    '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+    '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+interface TextStyle {
+    foreground?: string;
+    background?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+}
+
+/**
+ * Remove escape sequences (colors, cursor movement, titles) from terminal output
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Split terminal output around its escape sequences; odd entries are the sequences
+ */
+export function splitAnsi(text: string): string[] {
+    return text.split(new RegExp(`(${ANSI_PATTERN.source})`));
+}
+
+function rgb(red: number, green: number, blue: number): string {
+    return `#${[red, green, blue].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function color256(index: number): string | undefined {
+    if (!(index >= 0 && index <= 255)) return undefined;
+    if (index < 16) return PALETTE[index];
+    if (index >= 232) {
+        const level = 8 + (index - 232) * 10;
+        return rgb(level, level, level);
+    }
+    const cube = index - 16;
+    return rgb(CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]);
+}
+
+/**
+ * Apply one SGR sequence's parameters to the current style
+ */
+function applySgr(style: TextStyle, params: number[]): TextStyle {
+    let next = { ...style };
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+        if (code === 0) next = {};
+        else if (code === 1) next.bold = true;
+        else if (code === 2) next.dim = true;
+        else if (code === 3) next.italic = true;
+        else if (code === 4) next.underline = true;
+        else if (code === 7) next.inverse = true;
+        else if (code === 22) next.bold = next.dim = false;
+        else if (code === 23) next.italic = false;
+        else if (code === 24) next.underline = false;
+        else if (code === 27) next.inverse = false;
+        else if (code >= 30 && code <= 37) next.foreground = PALETTE[code - 30];
+        else if (code >= 90 && code <= 97) next.foreground = PALETTE[code - 90 + 8];
+        else if (code === 39) next.foreground = undefined;
+        else if (code >= 40 && code <= 47) next.background = PALETTE[code - 40];
+        else if (code >= 100 && code <= 107) next.background = PALETTE[code - 100 + 8];
+        else if (code === 49) next.background = undefined;
+        else if (code === 38 || code === 48) {
+            // Extended colors: 5;n from the 256-color table or 2;r;g;b
+            let color: string | undefined;
+            if (params[i + 1] === 5) {
+                color = color256(params[i + 2]);
+                i += 2;
+            } else if (params[i + 1] === 2) {
+                color = rgb(params[i + 2] ?? 0, params[i + 3] ?? 0, params[i + 4] ?? 0);
+                i += 4;
+            }
+            if (code === 38) next.foreground = color;
+            else next.background = color;
+        }
+    }
+    return next;
+}
+
+function toCss(style: TextStyle): string {
+    const foreground = style.inverse ? style.background ?? DEFAULT_BACKGROUND : style.foreground;
+    const background = style.inverse ? style.foreground ?? DEFAULT_FOREGROUND : style.background;
+    return [
+        foreground && `color:${foreground}`,
+        background && `background-color:${background}`,
+        style.bold && 'font-weight:bold',
+        style.dim && 'opacity:0.7',
+        style.italic && 'font-style:italic',
+        style.underline && 'text-decoration:underline',
+    ].filter(Boolean).join(';');
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Turn colored terminal text into HTML with inline styles; other escape
+ * sequences are dropped
+ */
+export function ansiToHtml(text: string): string {
+    let html = '';
+    let style: TextStyle = {};
+    let last = 0;
+
+    const appendText = (segment: string) => {
+        const plain = escapeHtml(stripAnsi(segment));
+        if (!plain) return;
+        const css = toCss(style);
+        html += css ? `<span style="${css}">${plain}</span>` : plain;
+    };
+
+    for (const match of text.matchAll(SGR_PATTERN)) {
+        appendText(text.slice(last, match.index));
+        const params = match[1] ? match[1].split(';').map(value => Number(value) || 0) : [0];
+        style = applySgr(style, params);
+        last = match.index + match[0].length;
+    }
+    appendText(text.slice(last));
+
+    return html;
+}
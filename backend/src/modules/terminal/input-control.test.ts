@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputControl } from './input-control.js';
+import type { Controller } from './input-control.js';
+
+const alice: Controller = { socketId: 'socket-a', userId: 'user-a', name: 'Alice' };
+const bob: Controller = { socketId: 'socket-b', userId: 'user-b', name: 'Bob' };
+const carol: Controller = { socketId: 'socket-c', userId: 'user-c', name: 'Carol' };
+
+describe('InputControl', () => {
+    let control: InputControl;
+
+    beforeEach(() => {
+        control = new InputControl();
+    });
+
+    it('gives the keyboard to the first socket that takes it', () => {
+        expect(control.take('s1', alice)).toBe(true);
+        expect(control.take('s1', bob)).toBe(false);
+
+        expect(control.isDriver('s1', alice.socketId)).toBe(true);
+        expect(control.isDriver('s1', bob.socketId)).toBe(false);
+        // Taking it again is a no-op
+        expect(control.take('s1', alice)).toBe(true);
+    });
+
+    it('lets a forced take replace the driver and drops its request', () => {
+        control.take('s1', alice);
+        control.request('s1', bob);
+
+        expect(control.take('s1', bob, true)).toBe(true);
+        expect(control.getState('s1')).toEqual({ driver: bob, requests: [] });
+    });
+
+    it('queues requests once each, oldest first, and not for the driver', () => {
+        control.take('s1', alice);
+        control.request('s1', bob);
+        control.request('s1', carol);
+        control.request('s1', bob);
+        control.request('s1', alice);
+
+        expect(control.getState('s1').requests).toEqual([bob, carol]);
+    });
+
+    it('hands the keyboard only to sockets that requested it', () => {
+        control.take('s1', alice);
+        control.request('s1', bob);
+
+        expect(control.grant('s1', carol.socketId)).toBe(false);
+        expect(control.grant('s1', bob.socketId)).toBe(true);
+        expect(control.getState('s1')).toEqual({ driver: bob, requests: [] });
+    });
+
+    it('frees the keyboard when the driver leaves and keeps other requests', () => {
+        control.take('s1', alice);
+        control.request('s1', bob);
+
+        control.release('s1', alice.socketId);
+        expect(control.getState('s1')).toEqual({ driver: null, requests: [bob] });
+
+        control.release('s1', bob.socketId);
+        expect(control.getState('s1')).toEqual({ driver: null, requests: [] });
+    });
+
+    it('revokes the driver without dropping requests', () => {
+        control.take('s1', alice);
+        control.request('s1', bob);
+
+        control.revoke('s1');
+        expect(control.getState('s1')).toEqual({ driver: null, requests: [bob] });
+    });
+
+    it('keeps sessions apart', () => {
+        control.take('s1', alice);
+
+        expect(control.take('s2', bob)).toBe(true);
+        expect(control.isDriver('s2', alice.socketId)).toBe(false);
+    });
+
+    it('emits a change only when the state changes', () => {
+        const onChange = vi.fn();
+        control.on('change', onChange);
+
+        control.take('s1', alice);
+        control.take('s1', bob);
+        control.release('s1', carol.socketId);
+        control.revoke('s2');
+        control.clear('s2');
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenLastCalledWith('s1', { driver: alice, requests: [] });
+
+        control.clear('s1');
+        expect(onChange).toHaveBeenCalledTimes(2);
+        expect(onChange).toHaveBeenLastCalledWith('s1', { driver: null, requests: [] });
+    });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+
+// A connected socket that holds or wants the keyboard
+export interface Controller {
+    socketId: string;
+    userId: string;
+    name: string;
+}
+
+export interface ControlState {
+    driver: Controller | null;
+    // Sockets waiting for control, oldest first
+    requests: Controller[];
+}
+
+/**
+ * Tracks which socket of a session may type into its terminal.
+ * Emits 'change' (sessionId, ControlState) whenever the driver or the
+ * pending requests change.
+ */
+export class InputControl extends EventEmitter {
+    private sessions: Map<string, ControlState> = new Map();
+
+    getState(sessionId: string): ControlState {
+        return this.sessions.get(sessionId) ?? { driver: null, requests: [] };
+    }
+
+    isDriver(sessionId: string, socketId: string): boolean {
+        return this.sessions.get(sessionId)?.driver?.socketId === socketId;
+    }
+
+    /**
+     * Take the keyboard if nobody holds it, or from the current driver when forced.
+     * Returns false if someone else is driving.
+     */
+    take(sessionId: string, controller: Controller, force = false): boolean {
+        const state = this.getState(sessionId);
+        if (state.driver?.socketId === controller.socketId) return true;
+        if (state.driver && !force) return false;
+
+        this.update(sessionId, {
+            driver: controller,
+            requests: state.requests.filter(request => request.socketId !== controller.socketId),
+        });
+        return true;
+    }
+
+    /**
+     * Ask the driver for the keyboard
+     */
+    request(sessionId: string, controller: Controller): void {
+        const state = this.getState(sessionId);
+        if (state.driver?.socketId === controller.socketId) return;
+        if (state.requests.some(request => request.socketId === controller.socketId)) return;
+
+        this.update(sessionId, { ...state, requests: [...state.requests, controller] });
+    }
+
+    /**
+     * Hand the keyboard to a socket that requested it.
+     * Returns false if that socket has no pending request.
+     */
+    grant(sessionId: string, socketId: string): boolean {
+        const state = this.getState(sessionId);
+        const requester = state.requests.find(request => request.socketId === socketId);
+        if (!requester) return false;
+
+        this.update(sessionId, {
+            driver: requester,
+            requests: state.requests.filter(request => request.socketId !== socketId),
+        });
+        return true;
+    }
+
+    /**
+     * Drop a socket's control and pending request, e.g. when it leaves
+     */
+    release(sessionId: string, socketId: string): void {
+        const state = this.sessions.get(sessionId);
+        if (!state) return;
+
+        const isDriver = state.driver?.socketId === socketId;
+        const requests = state.requests.filter(request => request.socketId !== socketId);
+        if (!isDriver && requests.length === state.requests.length) return;
+
+        this.update(sessionId, { driver: isDriver ? null : state.driver, requests });
+    }
+
+    /**
+     * Take the keyboard away from whoever holds it
+     */
+    revoke(sessionId: string): void {
+        const state = this.sessions.get(sessionId);
+        if (!state?.driver) return;
+
+        this.update(sessionId, { ...state, driver: null });
+    }
+
+    clear(sessionId: string): void {
+        if (this.sessions.delete(sessionId)) {
+            this.emit('change', sessionId, this.getState(sessionId));
+        }
+    }
+
+    private update(sessionId: string, state: ControlState): void {
+        if (!state.driver && state.requests.length === 0) {
+            this.sessions.delete(sessionId);
+        } else {
+            this.sessions.set(sessionId, state);
+        }
+        this.emit('change', sessionId, state);
+    }
+}
+
+export const inputControl = new InputControl();
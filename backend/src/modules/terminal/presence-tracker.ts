@@ -0,0 +1,97 @@
+import type { SessionRole } from '@prisma/client';
+
+export type DeviceKind = 'mobile' | 'desktop';
+
+interface PresenceEntry {
+    socketId: string;
+    userId: string;
+    name: string;
+    role: SessionRole;
+    device: DeviceKind;
+    joinedAt: number;
+    lastActiveAt: number;
+}
+
+// What clients are sent; idle time is relative so client clocks don't matter
+export interface PresenceUser {
+    socketId: string;
+    userId: string;
+    name: string;
+    role: SessionRole;
+    device: DeviceKind;
+    connectedMs: number;
+    idleMs: number;
+}
+
+const MOBILE_PATTERN = /Mobi|Android|iPhone|iPad|iPod/i;
+
+export function detectDevice(userAgent: string | undefined): DeviceKind {
+    return userAgent && MOBILE_PATTERN.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+/**
+ * Tracks the sockets currently joined to each session
+ */
+export class PresenceTracker {
+    private sessions: Map<string, Map<string, PresenceEntry>> = new Map();
+
+    join(sessionId: string, entry: Omit<PresenceEntry, 'joinedAt' | 'lastActiveAt'>): void {
+        const now = Date.now();
+        const entries = this.sessions.get(sessionId) ?? new Map<string, PresenceEntry>();
+        entries.set(entry.socketId, { ...entry, joinedAt: now, lastActiveAt: now });
+        this.sessions.set(sessionId, entries);
+    }
+
+    /**
+     * Remove a socket; returns false if it was not joined
+     */
+    leave(sessionId: string, socketId: string): boolean {
+        const entries = this.sessions.get(sessionId);
+        if (!entries?.delete(socketId)) return false;
+        if (entries.size === 0) {
+            this.sessions.delete(sessionId);
+        }
+        return true;
+    }
+
+    /**
+     * Record that a socket typed or answered a prompt
+     */
+    touch(sessionId: string, socketId: string): void {
+        const entry = this.sessions.get(sessionId)?.get(socketId);
+        if (entry) {
+            entry.lastActiveAt = Date.now();
+        }
+    }
+
+    setRole(sessionId: string, userId: string, role: SessionRole): void {
+        for (const entry of this.sessions.get(sessionId)?.values() ?? []) {
+            if (entry.userId === userId) {
+                entry.role = role;
+            }
+        }
+    }
+
+    list(sessionId: string): PresenceUser[] {
+        const now = Date.now();
+        return [...(this.sessions.get(sessionId)?.values() ?? [])].map(entry => ({
+            socketId: entry.socketId,
+            userId: entry.userId,
+            name: entry.name,
+            role: entry.role,
+            device: entry.device,
+            connectedMs: now - entry.joinedAt,
+            idleMs: now - entry.lastActiveAt,
+        }));
+    }
+
+    /**
+     * Count distinct users connected to a session
+     */
+    countUsers(sessionId: string): number {
+        const entries = this.sessions.get(sessionId)?.values() ?? [];
+        return new Set([...entries].map(entry => entry.userId)).size;
+    }
+}
+
+export const presenceTracker = new PresenceTracker();
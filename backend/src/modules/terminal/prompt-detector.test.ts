@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrompt } from './prompt-detector.js';
+
+const permissionDialog = [
+    '╭──────────────────────────────────────────╮',
+    '│ Bash command                             │',
+    '│                                          │',
+    '│   npm test                               │',
+    '│   Run the test suite                     │',
+    '│                                          │',
+    '│ Do you want to proceed?                  │',
+    '│ ❯ 1. Yes                                 │',
+    '│   2. No, and tell Claude what to do      │',
+    '╰──────────────────────────────────────────╯',
+];
+
+describe('parsePrompt', () => {
+    it('recognizes a permission dialog with its context', () => {
+        const prompt = parsePrompt(permissionDialog);
+
+        expect(prompt).toMatchObject({
+            kind: 'permission',
+            question: 'Do you want to proceed?',
+            context: ['Bash command', 'npm test', 'Run the test suite'],
+            options: [
+                { key: '1', label: 'Yes' },
+                { key: '2', label: 'No, and tell Claude what to do' },
+            ],
+            selected: 0,
+        });
+    });
+
+    it('reports the option the cursor is on', () => {
+        const prompt = parsePrompt([
+            'Which theme?',
+            '  1. Dark',
+            '› 2. Light',
+            '  3. System',
+        ]);
+
+        expect(prompt?.kind).toBe('choice');
+        expect(prompt?.selected).toBe(1);
+        expect(prompt?.options.map(option => option.label)).toEqual(['Dark', 'Light', 'System']);
+    });
+
+    it('allows hint lines below the options', () => {
+        const prompt = parsePrompt([
+            'Continue?',
+            '1. Yes',
+            '2. No',
+            '',
+            'Esc to cancel',
+        ]);
+
+        expect(prompt?.question).toBe('Continue?');
+    });
+
+    it('gives the same prompt the same id', () => {
+        expect(parsePrompt(permissionDialog)?.id).toBe(parsePrompt([...permissionDialog])?.id);
+        expect(parsePrompt(['Continue?', '1. Yes', '2. No'])?.id)
+            .not.toBe(parsePrompt(['Proceed?', '1. Yes', '2. No'])?.id);
+    });
+
+    it('ignores numbered lists that are not a prompt', () => {
+        // No question
+        expect(parsePrompt(['Steps:', '1. Build', '2. Test'])).toBeNull();
+        // Not numbered from 1
+        expect(parsePrompt(['Continue?', '2. Yes', '3. No'])).toBeNull();
+        // A single option
+        expect(parsePrompt(['Continue?', '1. Yes'])).toBeNull();
+        // Scrolled up by later output
+        expect(parsePrompt(['Continue?', '1. Yes', '2. No', 'a', 'b', 'c', 'd'])).toBeNull();
+        expect(parsePrompt([])).toBeNull();
+    });
+});
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { ptyManager } from './pty-manager.js';
+import { screenManager } from './screen-manager.js';
+
+// `❯ 1. Yes` / `  2. No, and tell Claude what to do differently`
+const OPTION_PATTERN = /^(?:([❯›>])\s*)?(\d+)\.\s+(.+)$/;
+// Box drawing the Claude CLI frames its dialogs with
+const BORDER_PATTERN = /^[\s│┃|╭╮╰╯─━]+|[\s│┃|╭╮╰╯─━]+$/g;
+const PERMISSION_PATTERN = /proceed|allow|permission|want to (make|create|run|edit|fetch|use)/i;
+// Lines allowed between the question and the options, and below the options (hints)
+const MAX_GAP_LINES = 2;
+const MAX_TRAILING_LINES = 3;
+const MAX_CONTEXT_LINES = 6;
+
+export interface PromptOption {
+    key: string;
+    label: string;
+}
+
+export interface DetectedPrompt {
+    id: string;
+    kind: 'permission' | 'choice';
+    question: string;
+    // What the prompt is about, e.g. the tool and command awaiting approval
+    context: string[];
+    options: PromptOption[];
+    selected: number;
+}
+
+/**
+ * Recognize a Claude CLI numbered-choice prompt at the bottom of a screen.
+ * A question line ending in `?` must directly precede options numbered from 1.
+ */
+export function parsePrompt(screenLines: string[]): DetectedPrompt | null {
+    const lines = screenLines.map(line => line.replace(BORDER_PATTERN, ''));
+
+    let last = lines.length - 1;
+    let trailing = 0;
+    while (last >= 0 && !OPTION_PATTERN.test(lines[last])) {
+        if (lines[last] && ++trailing > MAX_TRAILING_LINES) return null;
+        last--;
+    }
+    if (last < 0) return null;
+
+    // Walk up through the option block
+    let first = last;
+    while (first > 0 && OPTION_PATTERN.test(lines[first - 1])) {
+        first--;
+    }
+
+    const options: PromptOption[] = [];
+    let selected = 0;
+    for (let i = first; i <= last; i++) {
+        const [, marker, number, label] = lines[i].match(OPTION_PATTERN)!;
+        if (Number(number) !== options.length + 1) return null;
+        if (marker) selected = options.length;
+        options.push({ key: number, label: label.trim() });
+    }
+    if (options.length < 2) return null;
+
+    let questionIndex = first - 1;
+    while (questionIndex >= 0 && first - questionIndex <= MAX_GAP_LINES + 1 && !lines[questionIndex]) {
+        questionIndex--;
+    }
+    const question = lines[questionIndex]?.trim();
+    if (!question || !question.endsWith('?')) return null;
+
+    // Context runs up to the dialog's top border; blank lines end it
+    // unless they are inside the dialog's side borders
+    const context: string[] = [];
+    for (let i = questionIndex - 1; i >= 0 && context.length < MAX_CONTEXT_LINES; i--) {
+        const raw = screenLines[i].trim();
+        if (!lines[i]) {
+            if (raw.startsWith('│') && raw.endsWith('│')) continue;
+            break;
+        }
+        context.unshift(lines[i].trim());
+    }
+
+    const id = createHash('sha1')
+        .update(JSON.stringify([question, context, options]))
+        .digest('hex')
+        .slice(0, 12);
+
+    return {
+        id,
+        kind: PERMISSION_PATTERN.test(question) ? 'permission' : 'choice',
+        question,
+        context,
+        options,
+        selected,
+    };
+}
+
+/**
+ * Tracks the prompt currently shown on each session's screen and emits
+ * 'change' (sessionId, prompt | null) when it appears, changes or goes away
+ */
+export class PromptDetector extends EventEmitter {
+    private prompts: Map<string, DetectedPrompt> = new Map();
+    // Prompts answered but possibly still on screen, so they are not offered twice
+    private answered: Map<string, string> = new Map();
+
+    /**
+     * Re-read a session's screen for a prompt
+     */
+    async scan(sessionId: string): Promise<void> {
+        const lines = await screenManager.getVisibleLines(sessionId);
+        let prompt = lines ? parsePrompt(lines) : null;
+        const previous = this.prompts.get(sessionId);
+
+        if (prompt && prompt.id === this.answered.get(sessionId)) {
+            prompt = null;
+        } else {
+            this.answered.delete(sessionId);
+        }
+
+        if (prompt) {
+            this.prompts.set(sessionId, prompt);
+        } else {
+            this.prompts.delete(sessionId);
+        }
+        if (prompt?.id !== previous?.id) {
+            this.emit('change', sessionId, prompt);
+        }
+    }
+
+    /**
+     * Get the prompt currently shown for a session
+     */
+    getCurrent(sessionId: string): DetectedPrompt | null {
+        return this.prompts.get(sessionId) ?? null;
+    }
+
+    /**
+     * Answer a session's current prompt by typing the option's key.
+     * Returns false if the prompt is no longer shown.
+     */
+    respond(sessionId: string, promptId: string, key: string): boolean {
+        const prompt = this.prompts.get(sessionId);
+        if (!prompt || prompt.id !== promptId || !prompt.options.some(option => option.key === key)) {
+            return false;
+        }
+
+        ptyManager.write(sessionId, key);
+        this.prompts.delete(sessionId);
+        this.answered.set(sessionId, promptId);
+        this.emit('change', sessionId, null);
+        return true;
+    }
+
+    /**
+     * Forget a session's prompt
+     */
+    clear(sessionId: string): void {
+        this.prompts.delete(sessionId);
+        this.answered.delete(sessionId);
+    }
+}
+
+export const promptDetector = new PromptDetector();
@@ -0,0 +1,193 @@
+import net from 'net';
+import { spawn as spawnProcess } from 'child_process';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import type { IPty, PtySpawnOptions } from './local-pty.js';
+import { createLineDecoder, encodeMessage } from './pty-host.protocol.js';
+import type { HostedPtyInfo, HostedPtyState, HostEvent, HostRequest } from './pty-host.protocol.js';
+
+const CONNECT_TIMEOUT_MS = 5000;
+const CONNECT_RETRY_MS = 100;
+
+// The host only needs enough to run Node; PTYs get their environment per spawn
+const HOST_ENV_VARS = ['PATH', 'HOME', 'LANG', 'LC_ALL', 'TZ', 'TMPDIR', 'NODE_ENV', 'NODE_OPTIONS'];
+
+type DataListener = (data: string) => void;
+type ExitListener = (e: { exitCode: number; signal?: number }) => void;
+
+/**
+ * IPty proxy for a PTY owned by the detached host process
+ */
+class RemotePty implements IPty {
+    private dataListeners: DataListener[] = [];
+    private exitListeners: ExitListener[] = [];
+
+    constructor(private client: PtyHostClient, private id: string) { }
+
+    write(data: string): void {
+        this.client.send({ type: 'write', id: this.id, data });
+    }
+
+    resize(cols: number, rows: number): void {
+        this.client.send({ type: 'resize', id: this.id, cols, rows });
+    }
+
+    kill(signal?: string): void {
+        this.client.send({ type: 'kill', id: this.id, signal });
+    }
+
+    killGroup(signal: string): void {
+        this.client.send({ type: 'kill', id: this.id, signal, group: true });
+    }
+
+    onData(listener: DataListener): void {
+        this.dataListeners.push(listener);
+    }
+
+    onExit(listener: ExitListener): void {
+        this.exitListeners.push(listener);
+    }
+
+    emitData(data: string): void {
+        this.dataListeners.forEach(listener => listener(data));
+    }
+
+    emitExit(e: { exitCode: number; signal?: number }): void {
+        this.exitListeners.forEach(listener => listener(e));
+    }
+}
+
+export class PtyHostClient {
+    private ptys: Map<string, RemotePty> = new Map();
+    private pendingLists: Map<number, (sessions: HostedPtyInfo[]) => void> = new Map();
+    private nextRequestId = 1;
+
+    private constructor(private socket: net.Socket) {
+        socket.on('data', createLineDecoder<HostEvent>((event) => this.handleEvent(event)));
+        socket.on('close', () => {
+            // Losing the host means losing every PTY it owned
+            console.error('[PtyHost] Connection to PTY host lost');
+            this.ptys.forEach(pty => pty.emitExit({ exitCode: -1 }));
+            this.ptys.clear();
+        });
+        socket.on('error', () => { });
+    }
+
+    /**
+     * Connect to the host, starting it first if nothing is listening
+     */
+    static async connect(socketPath: string): Promise<PtyHostClient> {
+        try {
+            return new PtyHostClient(await openSocket(socketPath));
+        } catch {
+            startHostProcess(socketPath);
+        }
+
+        const deadline = Date.now() + CONNECT_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, CONNECT_RETRY_MS));
+            try {
+                return new PtyHostClient(await openSocket(socketPath));
+            } catch {
+                // Host still starting up
+            }
+        }
+        throw new Error(`PTY host did not start on ${socketPath}`);
+    }
+
+    send(request: HostRequest): void {
+        this.socket.write(encodeMessage(request));
+    }
+
+    /**
+     * Ask the host to spawn a PTY and return a proxy for it
+     */
+    spawn(id: string, file: string, args: string[], options: PtySpawnOptions): IPty {
+        const pty = this.attach(id);
+        this.send({ type: 'spawn', id, file, args, options });
+        return pty;
+    }
+
+    /**
+     * Get a proxy for a PTY the host already owns
+     */
+    attach(id: string): IPty {
+        const pty = new RemotePty(this, id);
+        this.ptys.set(id, pty);
+        return pty;
+    }
+
+    /**
+     * Store a PTY's state in the host so it survives a backend restart
+     */
+    setState(id: string, state: HostedPtyState): void {
+        this.send({ type: 'state', id, state });
+    }
+
+    /**
+     * List the PTYs currently alive in the host
+     */
+    list(): Promise<HostedPtyInfo[]> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.pendingLists.set(requestId, resolve);
+            this.send({ type: 'list', requestId });
+        });
+    }
+
+    private handleEvent(event: HostEvent): void {
+        switch (event.type) {
+            case 'data':
+                this.ptys.get(event.id)?.emitData(event.data);
+                return;
+            case 'exit':
+                this.ptys.get(event.id)?.emitExit({ exitCode: event.exitCode, signal: event.signal });
+                this.ptys.delete(event.id);
+                return;
+            case 'list':
+                this.pendingLists.get(event.requestId)?.(event.sessions);
+                this.pendingLists.delete(event.requestId);
+                return;
+            case 'error':
+                console.error(`[PtyHost] ${event.id ?? 'host'}: ${event.message}`);
+                return;
+        }
+    }
+}
+
+function openSocket(socketPath: string): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = net.createConnection(socketPath);
+        socket.once('connect', () => {
+            socket.off('error', reject);
+            resolve(socket);
+        });
+        socket.once('error', reject);
+    });
+}
+
+/**
+ * Launch the host as a detached process so it survives the backend
+ */
+function startHostProcess(socketPath: string): void {
+    // Resolve the sibling entry point with the same extension (.ts under tsx, .js when built)
+    const currentFile = fileURLToPath(import.meta.url);
+    const hostEntry = path.join(path.dirname(currentFile), `pty-host${path.extname(currentFile)}`);
+
+    // The host outlives the backend, so it must not hold its secrets
+    const hostEnv: Record<string, string> = {};
+    for (const name of HOST_ENV_VARS) {
+        const value = process.env[name];
+        if (value !== undefined) {
+            hostEnv[name] = value;
+        }
+    }
+
+    const child = spawnProcess(process.execPath, [...process.execArgv, hostEntry, socketPath], {
+        detached: true,
+        stdio: 'ignore',
+        env: hostEnv,
+    });
+    child.unref();
+    console.log(`[PtyHost] Started PTY host (pid ${child.pid})`);
+}
@@ -0,0 +1,65 @@
+import type { PtySpawnOptions } from './local-pty.js';
+import type { PauseState } from './pty-manager.js';
+import type { SandboxPolicy } from './sandbox.js';
+
+// Output kept per PTY; also bounds how far back a reconnecting client can resume
+export const OUTPUT_BUFFER_SIZE = 65536;
+
+// What the backend needs to pick a session up again after a restart
+export interface HostedPtyState {
+    startedAt: number;
+    sandbox?: SandboxPolicy;
+    pause?: PauseState;
+}
+
+// Messages sent by the backend to the host
+export type HostRequest =
+    | { type: 'spawn'; id: string; file: string; args: string[]; options: PtySpawnOptions }
+    | { type: 'write'; id: string; data: string }
+    | { type: 'resize'; id: string; cols: number; rows: number }
+    | { type: 'kill'; id: string; signal?: string; group?: boolean }
+    | { type: 'state'; id: string; state: HostedPtyState }
+    | { type: 'list'; requestId: number };
+
+export interface HostedPtyInfo {
+    id: string;
+    buffer: string;
+    cols: number;
+    rows: number;
+    state?: HostedPtyState;
+}
+
+// Messages sent by the host to the backend
+export type HostEvent =
+    | { type: 'data'; id: string; data: string }
+    | { type: 'exit'; id: string; exitCode: number; signal?: number }
+    | { type: 'list'; requestId: number; sessions: HostedPtyInfo[] }
+    | { type: 'error'; id?: string; message: string };
+
+/**
+ * Split a socket stream into newline-delimited JSON messages
+ */
+export function createLineDecoder<T>(onMessage: (message: T) => void): (chunk: Buffer) => void {
+    let pending = '';
+    return (chunk) => {
+        pending += chunk.toString('utf8');
+        let index: number;
+        while ((index = pending.indexOf('\n')) !== -1) {
+            const line = pending.slice(0, index);
+            pending = pending.slice(index + 1);
+            if (!line) continue;
+            try {
+                onMessage(JSON.parse(line) as T);
+            } catch {
+                // Ignore malformed lines
+            }
+        }
+    };
+}
+
+/**
+ * Serialize a message for the wire
+ */
+export function encodeMessage(message: HostRequest | HostEvent): string {
+    return JSON.stringify(message) + '\n';
+}
@@ -0,0 +1,153 @@
+/**
+ * Detachable PTY host.
+ *
+ * Runs as its own long-lived process, owns every PTY and exposes them over a
+ * Unix socket using newline-delimited JSON. The backend connects as a client,
+ * so restarting or redeploying the backend leaves the PTYs running and lets
+ * PtyManager reattach to them on boot.
+ *
+ * Usage: node pty-host.js <socket-path>
+ */
+import net from 'net';
+import fs from 'fs';
+import { spawnLocalPty } from './local-pty.js';
+import type { IPty } from './local-pty.js';
+import { createLineDecoder, encodeMessage, OUTPUT_BUFFER_SIZE } from './pty-host.protocol.js';
+import type { HostEvent, HostedPtyState, HostRequest } from './pty-host.protocol.js';
+
+interface HostedPty {
+    pty: IPty;
+    buffer: string;
+    cols: number;
+    rows: number;
+    // Kept for the backend, which may restart while the PTY runs
+    state?: HostedPtyState;
+}
+
+function startHost(socketPath: string) {
+    const ptys = new Map<string, HostedPty>();
+    const clients = new Set<net.Socket>();
+
+    const broadcast = (event: HostEvent) => {
+        const line = encodeMessage(event);
+        clients.forEach(client => client.write(line));
+    };
+
+    const handleRequest = (client: net.Socket, request: HostRequest) => {
+        const reply = (event: HostEvent) => client.write(encodeMessage(event));
+
+        switch (request.type) {
+            case 'spawn': {
+                if (ptys.has(request.id)) {
+                    reply({ type: 'error', id: request.id, message: 'Session already exists' });
+                    return;
+                }
+                let pty: IPty;
+                try {
+                    pty = spawnLocalPty(request.file, request.args, request.options);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Failed to spawn';
+                    broadcast({ type: 'exit', id: request.id, exitCode: 1 });
+                    reply({ type: 'error', id: request.id, message });
+                    return;
+                }
+                const hosted: HostedPty = {
+                    pty,
+                    buffer: '',
+                    cols: request.options.cols,
+                    rows: request.options.rows,
+                };
+                pty.onData((data) => {
+                    hosted.buffer += data;
+                    if (hosted.buffer.length > OUTPUT_BUFFER_SIZE) {
+                        hosted.buffer = hosted.buffer.slice(-OUTPUT_BUFFER_SIZE);
+                    }
+                    broadcast({ type: 'data', id: request.id, data });
+                });
+                pty.onExit(({ exitCode, signal }) => {
+                    ptys.delete(request.id);
+                    broadcast({ type: 'exit', id: request.id, exitCode, signal });
+                });
+                ptys.set(request.id, hosted);
+                return;
+            }
+            case 'write':
+                ptys.get(request.id)?.pty.write(request.data);
+                return;
+            case 'resize': {
+                const hosted = ptys.get(request.id);
+                if (hosted) {
+                    hosted.pty.resize(request.cols, request.rows);
+                    hosted.cols = request.cols;
+                    hosted.rows = request.rows;
+                }
+                return;
+            }
+            case 'state': {
+                const hosted = ptys.get(request.id);
+                if (hosted) {
+                    hosted.state = request.state;
+                }
+                return;
+            }
+            case 'kill': {
+                const hosted = ptys.get(request.id);
+                if (!hosted) return;
+                try {
+                    if (request.group) {
+                        hosted.pty.killGroup(request.signal ?? 'SIGHUP');
+                    } else {
+                        hosted.pty.kill(request.signal);
+                    }
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Failed to signal';
+                    reply({ type: 'error', id: request.id, message });
+                }
+                return;
+            }
+            case 'list':
+                reply({
+                    type: 'list',
+                    requestId: request.requestId,
+                    sessions: Array.from(ptys.entries()).map(([id, hosted]) => ({
+                        id,
+                        buffer: hosted.buffer,
+                        cols: hosted.cols,
+                        rows: hosted.rows,
+                        state: hosted.state,
+                    })),
+                });
+                return;
+        }
+    };
+
+    const server = net.createServer((client) => {
+        clients.add(client);
+        client.on('data', createLineDecoder<HostRequest>((request) => handleRequest(client, request)));
+        client.on('close', () => clients.delete(client));
+        client.on('error', () => clients.delete(client));
+    });
+
+    // Remove a stale socket left behind by a previous host
+    if (fs.existsSync(socketPath)) {
+        fs.unlinkSync(socketPath);
+    }
+
+    server.listen(socketPath, () => {
+        fs.chmodSync(socketPath, 0o600);
+        console.log(`[PtyHost] Listening on ${socketPath} (pid ${process.pid})`);
+    });
+
+    // The host outlives the backend, so only explicit termination stops it
+    process.on('SIGHUP', () => { });
+    process.on('SIGTERM', () => {
+        ptys.forEach(hosted => hosted.pty.kill());
+        server.close();
+        process.exit(0);
+    });
+}
+
+const socketPath = process.argv[2];
+if (socketPath) {
+    startHost(socketPath);
+}
@@ -1,151 +1,272 @@
 import { EventEmitter } from 'events';
-import { createRequire } from 'module';
+import { randomUUID } from 'crypto';
 import { env } from '../../config/env.js';
+import { isLocalPtyAvailable, spawnLocalPty } from './local-pty.js';
+import type { IPty, PtySpawnOptions } from './local-pty.js';
+import { PtyHostClient } from './pty-host-client.js';
+import { OUTPUT_BUFFER_SIZE } from './pty-host.protocol.js';
+import type { HostedPtyInfo } from './pty-host.protocol.js';
+import { applySandbox, describeExit } from './sandbox.js';
+import type { SandboxPolicy } from './sandbox.js';
+import { recordingService } from '../recording/recording.service.js';
+import type { AsciicastRecorder } from '../recording/asciicast-recorder.js';
 
-// Create require function for ESM compatibility
-const require = createRequire(import.meta.url);
-
-// Define interfaces for PTY
-export interface IPty {
-    write(data: string): void;
-    resize(cols: number, rows: number): void;
-    kill(signal?: string): void;
-    onData(listener: (data: string) => void): void;
-    onExit(listener: (e: { exitCode: number; signal?: number }) => void): void;
-}
+export type { IPty } from './local-pty.js';
 
 export interface PtySession {
     id: string;
     pty: IPty;
     outputBuffer: string;
+    // Identifies one PTY process; offsets are only comparable within a stream
+    streamId: string;
+    // Total characters of output produced so far in this stream
+    outputOffset: number;
+    cols: number;
+    rows: number;
+    recorder?: AsciicastRecorder;
+    sandbox?: SandboxPolicy;
+    wallClockTimer?: NodeJS.Timeout;
+    // Set when the manager itself ends the process (e.g. a limit was hit)
+    exitReason?: string;
+    pause?: PauseState;
+    pauseTimer?: NodeJS.Timeout;
+    limits?: SessionLimits;
+    startedAt: number;
+    // Last input or output, for the idle timeout
+    lastActivityAt: number;
+    // Limits the users were already warned about
+    warned: Set<SessionLimitKind>;
 }
 
-// Mock PTY for development when node-pty is not available
-class MockPty extends EventEmitter implements IPty {
-    private dataListeners: ((data: string) => void)[] = [];
-    private exitListeners: ((e: { exitCode: number; signal?: number }) => void)[] = [];
-
-    constructor(command: string, args: string[], options: Record<string, unknown>) {
-        super();
-        console.log(`[MockPTY] Created mock PTY for: ${command}`);
-        // Send initial message after a short delay
-        setTimeout(() => {
-            this.dataListeners.forEach(listener => {
-                listener('\x1b[33m[MockPTY] node-pty is not available on Node ' + process.version + '\r\n');
-                listener('This is a mock terminal for development purposes.\r\n');
-                listener('Please use Node v20 LTS for full terminal functionality.\x1b[0m\r\n\r\n');
-                listener('$ ');
-            });
-        }, 100);
-    }
-
-    write(data: string): void {
-        // Echo input and simulate response
-        this.dataListeners.forEach(listener => {
-            listener(data);
-            if (data.includes('\r') || data.includes('\n')) {
-                setTimeout(() => listener('\r\n[MockPTY] Command received. Mock terminal active.\r\n$ '), 50);
-            }
-        });
-    }
+export interface SessionLimits {
+    // 0 = no limit
+    idleTimeoutMs: number;
+    maxRuntimeMs: number;
+}
 
-    resize(cols: number, rows: number): void {
-        console.log(`[MockPTY] Resize: ${cols}x${rows}`);
-    }
+export type SessionLimitKind = 'idle' | 'runtime';
 
-    kill(signal?: string): void {
-        console.log(`[MockPTY] Kill: ${signal}`);
-        this.exitListeners.forEach(listener => listener({ exitCode: 0 }));
-    }
+export type PauseTimeoutAction = 'resume' | 'terminate';
 
-    onData(listener: (data: string) => void): void {
-        this.dataListeners.push(listener);
-    }
+// Signals users may send to a session's processes
+export const PROCESS_SIGNALS = ['SIGINT', 'SIGTERM', 'SIGKILL'] as const;
+export type ProcessSignal = typeof PROCESS_SIGNALS[number];
 
-    onExit(listener: (e: { exitCode: number; signal?: number }) => void): void {
-        this.exitListeners.push(listener);
-    }
+// How long a stopped session may take to exit before it is killed
+const STOP_GRACE_MS = 5000;
+
+// How often idle and runtime limits are checked
+const LIMIT_CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Thrown when a session's process is not in the state an action needs
+ */
+export class SessionStateError extends Error { }
+
+export interface PauseState {
+    pausedAt: number;
+    // When the timeout action runs; null = paused until resumed
+    timeoutAt: number | null;
+    timeoutAction: PauseTimeoutAction;
 }
 
-// Try to load node-pty, fall back to mock
-type PtySpawnFn = (file: string, args: string[], options: Record<string, unknown>) => IPty;
-let nodePtySpawn: PtySpawnFn | null = null;
-let ptyAvailable = false;
-
-// Initialize PTY - this runs at module load time
-function initializePty() {
-    try {
-        const nodePty = require('node-pty');
-        nodePtySpawn = nodePty.spawn;
-        ptyAvailable = true;
-        console.log('[PtyManager] node-pty loaded successfully');
-    } catch (error) {
-        console.warn('[PtyManager] node-pty not available, using mock PTY');
-        console.warn('[PtyManager] For full terminal functionality, use Node v20 LTS');
-    }
+// What to run in a session's PTY (resolved from its launch profile)
+export interface LaunchOptions {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+    cols: number;
+    rows: number;
+    sandbox?: SandboxPolicy;
+    limits?: SessionLimits;
 }
 
-initializePty();
+export interface StreamPosition {
+    streamId: string;
+    offset: number;
+}
 
 export class PtyManager extends EventEmitter {
     private sessions: Map<string, PtySession> = new Map();
-    private readonly MAX_BUFFER_SIZE = 10000;
+    private host: PtyHostClient | null = null;
+    private limitTimer: NodeJS.Timeout | null = null;
 
     /**
      * Check if real PTY is available
      */
     isPtyAvailable(): boolean {
-        return ptyAvailable;
+        return isLocalPtyAvailable();
+    }
+
+    /**
+     * Connect to the detached PTY host (if enabled) and reattach to the
+     * sessions that survived the previous backend process.
+     * Returns the IDs of sessions that are still running.
+     */
+    async restore(): Promise<string[]> {
+        if (env.PTY_HOST_MODE !== 'detached') {
+            return [];
+        }
+
+        this.host = await PtyHostClient.connect(env.PTY_HOST_SOCKET);
+        const hosted = await this.host.list();
+
+        for (const info of hosted) {
+            this.reattach(info, this.host.attach(info.id));
+        }
+
+        console.log(`[PtyManager] Reattached to ${hosted.length} session(s) in PTY host`);
+        return hosted.map(info => info.id);
     }
 
     /**
-     * Spawn a new Claude CLI session
+     * Spawn a new session process
      */
-    spawn(sessionId: string): PtySession {
+    spawn(sessionId: string, launch: LaunchOptions): PtySession {
         if (this.sessions.has(sessionId)) {
-            throw new Error('Session already exists');
+            throw new SessionStateError('Session is already running');
         }
 
-        let ptyProcess: IPty;
-        const shell = env.CLAUDE_CLI_PATH;
-        const options = {
+        const { command, args, env: processEnv } = launch.sandbox
+            ? applySandbox(launch.command, launch.args, launch.env, launch.sandbox)
+            : launch;
+
+        const options: PtySpawnOptions = {
             name: 'xterm-256color',
-            cols: 120,
-            rows: 30,
-            cwd: process.cwd(),
-            env: process.env as Record<string, string>,
+            cols: launch.cols,
+            rows: launch.rows,
+            cwd: launch.cwd,
+            env: processEnv,
+            uid: launch.sandbox?.uid,
+            gid: launch.sandbox?.gid,
         };
 
-        if (nodePtySpawn && ptyAvailable) {
-            // Use real node-pty
-            ptyProcess = nodePtySpawn(shell, [], options);
-        } else {
-            // Use mock PTY
-            ptyProcess = new MockPty(shell, [], options);
+        const ptyProcess = this.host
+            ? this.host.spawn(sessionId, command, args, options)
+            : spawnLocalPty(command, args, options);
+
+        const session = this.track(sessionId, ptyProcess, '', options.cols, options.rows);
+        session.sandbox = launch.sandbox;
+        if (launch.limits) {
+            this.setLimits(sessionId, launch.limits);
         }
+        this.startWallClock(session);
+        this.saveState(session);
+
+        this.emit('spawn', sessionId);
+        return session;
+    }
+
+    /**
+     * Pick up a PTY the host kept running, with the sandbox limits and
+     * pause it had under the previous backend process
+     */
+    private reattach(info: HostedPtyInfo, ptyProcess: IPty): void {
+        const session = this.track(info.id, ptyProcess, info.buffer, info.cols, info.rows);
+        if (!info.state) return;
+
+        session.startedAt = info.state.startedAt;
+        session.sandbox = info.state.sandbox;
+        this.startWallClock(session);
+
+        // Still stopped; only its timeout needs to run again
+        if (info.state.pause) {
+            session.pause = info.state.pause;
+            this.startPauseTimer(session);
+        }
+    }
+
+    /**
+     * Wall-clock limit: the process is killed however busy or idle it is
+     */
+    private startWallClock(session: PtySession): void {
+        const wallClockSeconds = session.sandbox?.wallClockSeconds;
+        if (!wallClockSeconds) return;
+
+        const remainingMs = session.startedAt + wallClockSeconds * 1000 - Date.now();
+        session.wallClockTimer = setTimeout(() => {
+            session.exitReason = `Wall-clock limit of ${wallClockSeconds}s exceeded`;
+            session.pty.kill('SIGKILL');
+        }, Math.max(0, remainingMs));
+    }
+
+    /**
+     * Run the pause timeout action when the pause's timeout is reached
+     */
+    private startPauseTimer(session: PtySession): void {
+        const timeoutAt = session.pause?.timeoutAt;
+        if (!timeoutAt) return;
 
+        session.pauseTimer = setTimeout(() => {
+            if (session.pause?.timeoutAction === 'terminate') {
+                session.exitReason = `Paused for longer than ${env.PAUSE_TIMEOUT_MINUTES} minutes`;
+                this.kill(session.id);
+            } else {
+                this.resume(session.id);
+            }
+        }, Math.max(0, timeoutAt - Date.now()));
+    }
+
+    /**
+     * Keep what a restarted backend needs in the detached host
+     */
+    private saveState(session: PtySession): void {
+        this.host?.setState(session.id, {
+            startedAt: session.startedAt,
+            sandbox: session.sandbox,
+            pause: session.pause,
+        });
+    }
+
+    /**
+     * Start forwarding output and exit events for a PTY
+     */
+    private track(sessionId: string, ptyProcess: IPty, outputBuffer: string, cols: number, rows: number): PtySession {
         const session: PtySession = {
             id: sessionId,
             pty: ptyProcess,
-            outputBuffer: '',
+            outputBuffer,
+            streamId: randomUUID(),
+            outputOffset: outputBuffer.length,
+            cols,
+            rows,
+            startedAt: Date.now(),
+            lastActivityAt: Date.now(),
+            warned: new Set(),
+            recorder: recordingService.isEnabled() ? recordingService.start(sessionId, cols, rows) : undefined,
         };
 
         // Handle output
         ptyProcess.onData((data) => {
+            const offset = session.outputOffset;
+            session.outputOffset += data.length;
+            this.markActive(session);
+
             // Append to buffer, keep under max size
             session.outputBuffer += data;
-            if (session.outputBuffer.length > this.MAX_BUFFER_SIZE) {
-                session.outputBuffer = session.outputBuffer.slice(-this.MAX_BUFFER_SIZE);
+            if (session.outputBuffer.length > OUTPUT_BUFFER_SIZE) {
+                session.outputBuffer = session.outputBuffer.slice(-OUTPUT_BUFFER_SIZE);
             }
+            session.recorder?.output(data);
 
-            // Emit output event
-            this.emit('output', sessionId, data);
+            // Emit output event with the stream offset of its first character
+            this.emit('output', sessionId, data, offset);
         });
 
         // Handle exit
         ptyProcess.onExit(({ exitCode, signal }) => {
-            this.emit('exit', sessionId, exitCode, signal);
-            this.sessions.delete(sessionId);
+            session.recorder?.close();
+            clearTimeout(session.wallClockTimer);
+            clearTimeout(session.pauseTimer);
+
+            // Explain sandboxed exits so users can tell a limit from a crash
+            const reason = session.exitReason ?? (session.sandbox ? describeExit(exitCode, signal) : undefined);
+            this.emit('exit', sessionId, exitCode, signal, reason, session.streamId);
+            // A killed process may already have been replaced by a new one
+            if (this.sessions.get(sessionId) === session) {
+                this.sessions.delete(sessionId);
+            }
         });
 
         this.sessions.set(sessionId, session);
@@ -160,7 +281,12 @@ export class PtyManager extends EventEmitter {
         if (!session) {
             throw new Error('Session not found');
         }
+        if (session.pause) {
+            throw new Error('Session is paused');
+        }
         session.pty.write(data);
+        session.recorder?.input(data);
+        this.markActive(session);
     }
 
     /**
@@ -172,6 +298,18 @@ export class PtyManager extends EventEmitter {
             throw new Error('Session not found');
         }
         session.pty.resize(cols, rows);
+        session.cols = cols;
+        session.rows = rows;
+        session.recorder?.resize(cols, rows);
+        this.emit('resize', sessionId, cols, rows);
+    }
+
+    /**
+     * Get the current terminal size
+     */
+    getSize(sessionId: string): { cols: number; rows: number } | null {
+        const session = this.sessions.get(sessionId);
+        return session ? { cols: session.cols, rows: session.rows } : null;
     }
 
     /**
@@ -183,16 +321,225 @@ export class PtyManager extends EventEmitter {
     }
 
     /**
-     * Kill a session
+     * Check if an exit event is about an older process of a session that has
+     * since been started again
+     */
+    isStale(sessionId: string, streamId: string): boolean {
+        const session = this.sessions.get(sessionId);
+        return session !== undefined && session.streamId !== streamId;
+    }
+
+    /**
+     * Get the current stream ID and output offset
+     */
+    getStreamPosition(sessionId: string): StreamPosition | null {
+        const session = this.sessions.get(sessionId);
+        return session ? { streamId: session.streamId, offset: session.outputOffset } : null;
+    }
+
+    /**
+     * Get the recording being made of a session and how far into it it is
+     */
+    getRecordingPosition(sessionId: string): { recordingId: string; time: number } | null {
+        const recorder = this.sessions.get(sessionId)?.recorder;
+        return recorder ? { recordingId: recorder.id, time: recorder.elapsed() } : null;
+    }
+
+    /**
+     * Get the output produced since a stream position, or null if it can no
+     * longer be replayed (different stream or already dropped from the buffer)
+     */
+    getOutputSince(sessionId: string, position: StreamPosition): string | null {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.streamId !== position.streamId) {
+            return null;
+        }
+
+        const bufferStart = session.outputOffset - session.outputBuffer.length;
+        if (position.offset < bufferStart || position.offset > session.outputOffset) {
+            return null;
+        }
+        return session.outputBuffer.slice(position.offset - bufferStart);
+    }
+
+    /**
+     * Suspend the session's whole process group until resumed. After the
+     * configured timeout the session is resumed or terminated.
+     */
+    pause(sessionId: string): PauseState {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new SessionStateError('Session is not running');
+        }
+        if (session.pause) {
+            throw new SessionStateError('Session is already paused');
+        }
+
+        session.pty.killGroup('SIGSTOP');
+
+        const now = Date.now();
+        const timeoutMs = env.PAUSE_TIMEOUT_MINUTES * 60 * 1000;
+        session.pause = {
+            pausedAt: now,
+            timeoutAt: timeoutMs ? now + timeoutMs : null,
+            timeoutAction: env.PAUSE_TIMEOUT_ACTION,
+        };
+
+        this.startPauseTimer(session);
+        this.saveState(session);
+
+        this.emit('pause', sessionId, session.pause);
+        return session.pause;
+    }
+
+    /**
+     * Continue a paused session
+     */
+    resume(sessionId: string): void {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new SessionStateError('Session is not running');
+        }
+        if (!session.pause) {
+            throw new SessionStateError('Session is not paused');
+        }
+
+        session.pty.killGroup('SIGCONT');
+        clearTimeout(session.pauseTimer);
+        session.pause = undefined;
+        session.pauseTimer = undefined;
+        this.saveState(session);
+        this.markActive(session);
+        this.emit('resume', sessionId);
+    }
+
+    /**
+     * Get the pause state, or null if the session is running normally
+     */
+    getPauseState(sessionId: string): PauseState | null {
+        return this.sessions.get(sessionId)?.pause ?? null;
+    }
+
+    /**
+     * Set the idle timeout and maximum runtime of a session. Users are
+     * warned ('limit-warning') before the session is ended.
+     */
+    setLimits(sessionId: string, limits: SessionLimits): void {
+        const session = this.sessions.get(sessionId);
+        if (!session) return;
+
+        session.limits = limits;
+        if (!this.limitTimer && (limits.idleTimeoutMs || limits.maxRuntimeMs)) {
+            this.limitTimer = setInterval(() => this.checkLimits(), LIMIT_CHECK_INTERVAL_MS);
+            this.limitTimer.unref();
+        }
+    }
+
+    private markActive(session: PtySession): void {
+        session.lastActivityAt = Date.now();
+        session.warned.delete('idle');
+    }
+
+    private checkLimits(): void {
+        const now = Date.now();
+        const warningMs = env.SESSION_LIMIT_WARNING_MINUTES * 60 * 1000;
+
+        for (const session of this.sessions.values()) {
+            if (!session.limits) continue;
+            const { idleTimeoutMs, maxRuntimeMs } = session.limits;
+
+            const remaining: Array<[SessionLimitKind, number]> = [];
+            // A paused session is not idle; its pause has its own timeout
+            if (idleTimeoutMs && !session.pause) {
+                remaining.push(['idle', session.lastActivityAt + idleTimeoutMs - now]);
+            }
+            if (maxRuntimeMs) {
+                remaining.push(['runtime', session.startedAt + maxRuntimeMs - now]);
+            }
+
+            for (const [kind, remainingMs] of remaining) {
+                if (remainingMs <= 0) {
+                    session.exitReason = kind === 'idle'
+                        ? `Idle for ${Math.round(idleTimeoutMs / 60000)} minutes`
+                        : `Maximum runtime of ${Math.round(maxRuntimeMs / 60000)} minutes reached`;
+                    this.kill(session.id);
+                    break;
+                }
+                if (remainingMs <= warningMs && !session.warned.has(kind)) {
+                    session.warned.add(kind);
+                    this.emit('limit-warning', session.id, kind, remainingMs);
+                }
+            }
+        }
+    }
+
+    /**
+     * Send a signal to the session's process group
+     */
+    signal(sessionId: string, signal: ProcessSignal): void {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new SessionStateError('Session is not running');
+        }
+        session.pty.killGroup(signal);
+        // A stopped process only handles the signal once continued
+        if (session.pause && signal !== 'SIGKILL') {
+            this.resume(sessionId);
+        }
+    }
+
+    /**
+     * Hang up a session and wait until it exits; it is killed if it is
+     * still running after the grace period
+     */
+    stop(sessionId: string, graceMs = STOP_GRACE_MS): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                try {
+                    session.pty.killGroup('SIGKILL');
+                } catch {
+                    // Already gone
+                }
+            }, graceMs);
+
+            const onExit = (exitedId: string, _exitCode: number, _signal?: number, _reason?: string, streamId?: string) => {
+                if (exitedId !== sessionId || streamId !== session.streamId) return;
+                clearTimeout(timer);
+                this.off('exit', onExit);
+                resolve();
+            };
+            this.on('exit', onExit);
+
+            this.hangUp(session);
+        });
+    }
+
+    /**
+     * Kill a session without waiting for it to exit. It can be started
+     * again right away; its late 'exit' carries the old stream ID.
      */
     kill(sessionId: string): void {
         const session = this.sessions.get(sessionId);
         if (session) {
-            session.pty.kill();
+            this.hangUp(session);
             this.sessions.delete(sessionId);
         }
     }
 
+    private hangUp(session: PtySession): void {
+        session.pty.kill();
+        // A stopped process only handles the hangup once continued
+        if (session.pause) {
+            clearTimeout(session.pauseTimer);
+            session.pty.killGroup('SIGCONT');
+        }
+    }
+
     /**
      * Check if session exists
      */
@@ -0,0 +1,182 @@
+import { mkdirSync, chownSync } from 'fs';
+import fs from 'fs/promises';
+import { constants } from 'os';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { env, BACKEND_ENV_KEYS } from '../../config/env.js';
+import { prisma } from '../../config/database.js';
+
+// Variables a sandboxed process gets from the backend environment
+const BASE_ENV_VARS = ['PATH', 'LANG', 'LC_ALL', 'TZ'];
+
+// Concurrent allocations may pick the same free uid; the loser tries again
+const UID_ALLOCATION_ATTEMPTS = 5;
+
+/**
+ * Thrown when every uid in the sandbox range is taken
+ */
+export class SandboxUidError extends Error { }
+
+export interface SandboxPolicy {
+    uid?: number;
+    gid?: number;
+    home?: string;
+    cpuSeconds?: number;
+    memoryMb?: number;
+    maxProcesses?: number;
+    wallClockSeconds?: number;
+}
+
+export interface SandboxedCommand {
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+}
+
+/**
+ * Check if session processes are sandboxed
+ */
+export function isSandboxEnabled(): boolean {
+    return env.SANDBOX_ENABLED;
+}
+
+/**
+ * Get the uid assigned to an owner or session, assigning the lowest free one
+ * the first time. Assignments are stored, so no two keys share a uid.
+ */
+async function allocateSandboxUid(key: string): Promise<number> {
+    for (let attempt = 0; attempt < UID_ALLOCATION_ATTEMPTS; attempt++) {
+        const existing = await prisma.sandboxUid.findUnique({ where: { key } });
+        if (existing) {
+            return existing.uid;
+        }
+
+        const taken = await prisma.sandboxUid.findMany({
+            where: { uid: { gte: env.SANDBOX_UID_BASE, lt: env.SANDBOX_UID_BASE + env.SANDBOX_UID_COUNT } },
+            select: { uid: true },
+        });
+        const takenUids = new Set(taken.map(entry => entry.uid));
+        let uid = env.SANDBOX_UID_BASE;
+        while (takenUids.has(uid)) {
+            uid++;
+        }
+        if (uid >= env.SANDBOX_UID_BASE + env.SANDBOX_UID_COUNT) {
+            throw new SandboxUidError('No sandbox user is free; raise SANDBOX_UID_COUNT or delete sessions');
+        }
+
+        try {
+            const created = await prisma.sandboxUid.create({ data: { uid, key } });
+            return created.uid;
+        } catch (error) {
+            if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+                throw error;
+            }
+        }
+    }
+    throw new SandboxUidError('Could not assign a sandbox user; try again');
+}
+
+/**
+ * Free a deleted session's uid and its home directory, so the next session
+ * that gets the uid starts with nothing of this one's (session mode only)
+ */
+export async function releaseSandboxUid(sessionId: string): Promise<void> {
+    if (env.SANDBOX_UID_MODE !== 'session') {
+        return;
+    }
+
+    const assigned = await prisma.sandboxUid.findUnique({ where: { key: sessionId } });
+    if (!assigned) {
+        return;
+    }
+    await fs.rm(path.resolve(env.SANDBOX_HOME_DIR, String(assigned.uid)), { recursive: true, force: true });
+    await prisma.sandboxUid.delete({ where: { key: sessionId } });
+}
+
+/**
+ * Build the sandbox policy for a session from the configured limits.
+ * The uid belongs to the owner or the session so it is stable across restarts.
+ * Only its home (and the session's scratch directory) are chowned to it;
+ * workspace and profile directories keep the backend's ownership.
+ */
+export async function resolveSandboxPolicy(sessionId: string, ownerId: string): Promise<SandboxPolicy | undefined> {
+    if (!env.SANDBOX_ENABLED) {
+        return undefined;
+    }
+
+    const policy: SandboxPolicy = {
+        cpuSeconds: env.SANDBOX_CPU_SECONDS || undefined,
+        memoryMb: env.SANDBOX_MEMORY_MB || undefined,
+        maxProcesses: env.SANDBOX_MAX_PROCESSES || undefined,
+        wallClockSeconds: env.SANDBOX_WALL_CLOCK_SECONDS || undefined,
+    };
+
+    if (env.SANDBOX_UID_MODE !== 'none') {
+        policy.uid = await allocateSandboxUid(env.SANDBOX_UID_MODE === 'owner' ? ownerId : sessionId);
+        policy.gid = policy.uid;
+        policy.home = path.resolve(env.SANDBOX_HOME_DIR, String(policy.uid));
+    }
+
+    return policy;
+}
+
+/**
+ * Wrap a command so it runs with the policy's resource limits and an
+ * environment that contains nothing from the backend's configuration
+ */
+export function applySandbox(command: string, args: string[], launchEnv: Record<string, string>, policy: SandboxPolicy): SandboxedCommand {
+    const sandboxEnv: Record<string, string> = {};
+    for (const name of BASE_ENV_VARS) {
+        const value = process.env[name];
+        if (value !== undefined) {
+            sandboxEnv[name] = value;
+        }
+    }
+    Object.assign(sandboxEnv, launchEnv);
+    for (const name of BACKEND_ENV_KEYS) {
+        delete sandboxEnv[name];
+    }
+
+    if (policy.home) {
+        mkdirSync(policy.home, { recursive: true, mode: 0o700 });
+        if (policy.uid !== undefined && process.getuid?.() === 0) {
+            chownSync(policy.home, policy.uid, policy.gid ?? policy.uid);
+        }
+        sandboxEnv.HOME = policy.home;
+    }
+
+    const limits: string[] = [];
+    if (policy.cpuSeconds) limits.push(`--cpu=${policy.cpuSeconds}`);
+    if (policy.memoryMb) limits.push(`--as=${policy.memoryMb * 1024 * 1024}`);
+    if (policy.maxProcesses) limits.push(`--nproc=${policy.maxProcesses}`);
+
+    if (limits.length === 0) {
+        return { command, args, env: sandboxEnv };
+    }
+    return {
+        command: env.SANDBOX_PRLIMIT_PATH,
+        args: [...limits, '--', command, ...args],
+        env: sandboxEnv,
+    };
+}
+
+/**
+ * Explain why a sandboxed process ended, if it was not a normal exit
+ */
+export function describeExit(exitCode: number, signal?: number): string | undefined {
+    if (!signal) {
+        return exitCode === 0 ? undefined : `Exited with code ${exitCode}`;
+    }
+    if (signal === constants.signals.SIGXCPU) {
+        return 'CPU time limit exceeded';
+    }
+    return `Terminated by ${signalName(signal)}`;
+}
+
+/**
+ * Name of a signal number, e.g. 9 -> SIGKILL
+ */
+export function signalName(signal: number): string {
+    const name = Object.entries(constants.signals).find(([, value]) => value === signal)?.[0];
+    return name ?? `signal ${signal}`;
+}
@@ -0,0 +1,118 @@
+import xtermHeadless from '@xterm/headless';
+import xtermSerialize from '@xterm/addon-serialize';
+import type { Terminal as HeadlessTerminal } from '@xterm/headless';
+import type { SerializeAddon as SerializeAddonType } from '@xterm/addon-serialize';
+
+// Both packages are CommonJS bundles
+const { Terminal } = xtermHeadless;
+const { SerializeAddon } = xtermSerialize;
+
+interface Screen {
+    terminal: HeadlessTerminal;
+    serializer: SerializeAddonType;
+    // Stream offset of the output parsed so far
+    offset: number;
+}
+
+export interface ScreenSnapshot {
+    data: string;
+    offset: number;
+}
+
+/**
+ * Keeps a headless terminal emulator per session so late joiners get a
+ * snapshot of exactly what is on screen instead of a raw output tail.
+ */
+export class ScreenManager {
+    private screens: Map<string, Screen> = new Map();
+    private readonly SCROLLBACK_LINES = 1000;
+
+    /**
+     * Create a screen for a session whose next output starts at `offset`
+     */
+    create(sessionId: string, cols: number, rows: number, offset: number): void {
+        this.dispose(sessionId);
+
+        const terminal = new Terminal({
+            cols,
+            rows,
+            scrollback: this.SCROLLBACK_LINES,
+            allowProposedApi: true,
+        });
+        const serializer = new SerializeAddon();
+        terminal.loadAddon(serializer);
+
+        this.screens.set(sessionId, { terminal, serializer, offset });
+    }
+
+    /**
+     * Feed PTY output into a session's screen
+     */
+    write(sessionId: string, data: string): void {
+        const screen = this.screens.get(sessionId);
+        screen?.terminal.write(data, () => {
+            screen.offset += data.length;
+        });
+    }
+
+    /**
+     * Resize a session's screen to match the PTY
+     */
+    resize(sessionId: string, cols: number, rows: number): void {
+        this.screens.get(sessionId)?.terminal.resize(cols, rows);
+    }
+
+    /**
+     * Serialize screen and scrollback into an escape sequence stream that
+     * reproduces the current state when written to a fresh terminal,
+     * together with the stream offset it corresponds to
+     */
+    async getSnapshot(sessionId: string): Promise<ScreenSnapshot | null> {
+        const screen = this.screens.get(sessionId);
+        if (!screen) {
+            return null;
+        }
+
+        // Wait for pending writes to be parsed
+        await new Promise<void>(resolve => screen.terminal.write('', resolve));
+        return {
+            data: screen.serializer.serialize({ scrollback: this.SCROLLBACK_LINES }),
+            offset: screen.offset,
+        };
+    }
+
+    /**
+     * Get the text of the visible rows of a session's screen
+     */
+    async getVisibleLines(sessionId: string): Promise<string[] | null> {
+        const screen = this.screens.get(sessionId);
+        if (!screen) {
+            return null;
+        }
+
+        await new Promise<void>(resolve => screen.terminal.write('', resolve));
+        const buffer = screen.terminal.buffer.active;
+        const lines: string[] = [];
+        for (let row = 0; row < screen.terminal.rows; row++) {
+            lines.push(buffer.getLine(buffer.baseY + row)?.translateToString(true) ?? '');
+        }
+        return lines;
+    }
+
+    /**
+     * Check if a session has a screen
+     */
+    exists(sessionId: string): boolean {
+        return this.screens.has(sessionId);
+    }
+
+    /**
+     * Release a session's screen
+     */
+    dispose(sessionId: string): void {
+        this.screens.get(sessionId)?.terminal.dispose();
+        this.screens.delete(sessionId);
+    }
+}
+
+export const screenManager = new ScreenManager();
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clampSize, MAX_COLS, MAX_ROWS, MIN_COLS, MIN_ROWS, SizeArbiter } from './size-arbiter.js';
+
+describe('clampSize', () => {
+    it('keeps sizes within bounds and whole', () => {
+        expect(clampSize({ cols: 1, rows: 1 })).toEqual({ cols: MIN_COLS, rows: MIN_ROWS });
+        expect(clampSize({ cols: 10000, rows: 10000 })).toEqual({ cols: MAX_COLS, rows: MAX_ROWS });
+        expect(clampSize({ cols: 80.7, rows: 24.2 })).toEqual({ cols: 80, rows: 24 });
+    });
+});
+
+describe('SizeArbiter', () => {
+    let arbiter: SizeArbiter;
+
+    beforeEach(() => {
+        arbiter = new SizeArbiter();
+        arbiter.report('s1', 'socket-a', { cols: 120, rows: 40 });
+        arbiter.report('s1', 'socket-b', { cols: 100, rows: 50 });
+    });
+
+    it('follows the driver by default', () => {
+        expect(arbiter.hasPolicy('s1')).toBe(false);
+        expect(arbiter.getPolicy('s1').policy).toBe('DRIVER');
+
+        expect(arbiter.resolve('s1', 'socket-b')).toEqual({ cols: 100, rows: 50 });
+        // Nobody driving, or a driver that never reported: leave the size alone
+        expect(arbiter.resolve('s1')).toBeNull();
+        expect(arbiter.resolve('s1', 'socket-c')).toBeNull();
+    });
+
+    it('fits every window with the smallest policy', () => {
+        arbiter.setPolicy('s1', { policy: 'SMALLEST', cols: null, rows: null });
+
+        expect(arbiter.resolve('s1', 'socket-a')).toEqual({ cols: 100, rows: 40 });
+
+        arbiter.remove('s1', 'socket-b');
+        expect(arbiter.resolve('s1')).toEqual({ cols: 120, rows: 40 });
+
+        arbiter.remove('s1', 'socket-a');
+        expect(arbiter.resolve('s1')).toBeNull();
+    });
+
+    it('ignores windows with a fixed policy', () => {
+        arbiter.setPolicy('s1', { policy: 'FIXED', cols: 132, rows: 43 });
+        expect(arbiter.resolve('s1', 'socket-a')).toEqual({ cols: 132, rows: 43 });
+
+        arbiter.setPolicy('s1', { policy: 'FIXED', cols: null, rows: null });
+        expect(arbiter.resolve('s1', 'socket-a')).toBeNull();
+    });
+
+    it('clamps reported sizes', () => {
+        arbiter.report('s1', 'socket-a', { cols: 5, rows: 1000 });
+        expect(arbiter.resolve('s1', 'socket-a')).toEqual({ cols: MIN_COLS, rows: MAX_ROWS });
+    });
+
+    it('forgets reported sizes but not the policy when cleared', () => {
+        arbiter.setPolicy('s1', { policy: 'SMALLEST', cols: null, rows: null });
+        arbiter.clear('s1');
+
+        expect(arbiter.resolve('s1')).toBeNull();
+        expect(arbiter.hasPolicy('s1')).toBe(true);
+    });
+});
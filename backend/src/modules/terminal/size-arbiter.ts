@@ -0,0 +1,86 @@
+import type { SizePolicySetting } from '../session/session.service.js';
+
+export interface TerminalSize {
+    cols: number;
+    rows: number;
+}
+
+export const MIN_COLS = 20;
+export const MAX_COLS = 500;
+export const MIN_ROWS = 5;
+export const MAX_ROWS = 200;
+
+export function clampSize(size: TerminalSize): TerminalSize {
+    return {
+        cols: Math.min(MAX_COLS, Math.max(MIN_COLS, Math.floor(size.cols))),
+        rows: Math.min(MAX_ROWS, Math.max(MIN_ROWS, Math.floor(size.rows))),
+    };
+}
+
+/**
+ * Decides a session's terminal size from the window sizes its operators
+ * report and the session's size policy. Viewers never report.
+ */
+export class SizeArbiter {
+    private policies: Map<string, SizePolicySetting> = new Map();
+    private reported: Map<string, Map<string, TerminalSize>> = new Map();
+
+    hasPolicy(sessionId: string): boolean {
+        return this.policies.has(sessionId);
+    }
+
+    getPolicy(sessionId: string): SizePolicySetting {
+        return this.policies.get(sessionId) ?? { policy: 'DRIVER', cols: null, rows: null };
+    }
+
+    setPolicy(sessionId: string, setting: SizePolicySetting): void {
+        this.policies.set(sessionId, setting);
+    }
+
+    /**
+     * Record the size that fits a socket's window
+     */
+    report(sessionId: string, socketId: string, size: TerminalSize): void {
+        const sizes = this.reported.get(sessionId) ?? new Map<string, TerminalSize>();
+        sizes.set(socketId, clampSize(size));
+        this.reported.set(sessionId, sizes);
+    }
+
+    remove(sessionId: string, socketId: string): void {
+        const sizes = this.reported.get(sessionId);
+        if (sizes?.delete(socketId) && sizes.size === 0) {
+            this.reported.delete(sessionId);
+        }
+    }
+
+    /**
+     * Get the size the terminal should have, or null to leave it as it is
+     */
+    resolve(sessionId: string, driverSocketId?: string): TerminalSize | null {
+        const setting = this.getPolicy(sessionId);
+        const sizes = this.reported.get(sessionId);
+
+        switch (setting.policy) {
+            case 'FIXED':
+                return setting.cols && setting.rows ? { cols: setting.cols, rows: setting.rows } : null;
+
+            case 'SMALLEST': {
+                if (!sizes || sizes.size === 0) return null;
+                const all = [...sizes.values()];
+                return {
+                    cols: Math.min(...all.map(size => size.cols)),
+                    rows: Math.min(...all.map(size => size.rows)),
+                };
+            }
+
+            default:
+                return driverSocketId ? sizes?.get(driverSocketId) ?? null : null;
+        }
+    }
+
+    clear(sessionId: string): void {
+        this.reported.delete(sessionId);
+    }
+}
+
+export const sizeArbiter = new SizeArbiter();
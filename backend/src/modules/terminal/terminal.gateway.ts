@@ -3,18 +3,216 @@ import jwt from 'jsonwebtoken';
 import { env } from '../../config/env.js';
 import { prisma } from '../../config/database.js';
 import { sessionService } from '../session/session.service.js';
+import { memberService } from '../session/member.service.js';
 import { ptyManager } from './pty-manager.js';
+import type { StreamPosition, SessionLimitKind } from './pty-manager.js';
+import { screenManager } from './screen-manager.js';
+import { promptDetector } from './prompt-detector.js';
+import type { DetectedPrompt } from './prompt-detector.js';
+import { inputControl } from './input-control.js';
+import type { Controller, ControlState } from './input-control.js';
+import { sizeArbiter, clampSize } from './size-arbiter.js';
+import { presenceTracker, detectDevice } from './presence-tracker.js';
+import { signalName } from './sandbox.js';
+import { fileWatcherService } from '../files/file-watcher.service.js';
+import { headlessManager } from '../headless/headless-manager.js';
+import { chatService } from '../headless/chat.service.js';
+import { shareService } from '../share/share.service.js';
 import type { JwtPayload } from '../../middleware/auth.middleware.js';
+import type { SizePolicySetting } from '../session/session.service.js';
+import type { SessionRole } from '@prisma/client';
 
-interface AuthenticatedSocket extends Socket {
+// How often a session's screen snapshot is persisted while output flows
+const PERSIST_INTERVAL_MS = 2000;
+
+// Activity is broadcast at most this often; joins and leaves immediately
+const PRESENCE_THROTTLE_MS = 2000;
+
+// Most sessions a dashboard can follow the live user counts of
+const MAX_PRESENCE_SUBSCRIPTIONS = 200;
+
+// Delay between output and reading the screen for a permission prompt
+const PROMPT_SCAN_DELAY_MS = 150;
+
+const SIZE_POLICIES = ['DRIVER', 'SMALLEST', 'FIXED'];
+
+// Longest delay setTimeout supports; later share link expiries are waited for in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Clients reconnecting after a network change pass the last position they rendered
+type JoinPayload = string | { sessionId: string; resume?: StreamPosition };
+
+export interface AuthenticatedSocket extends Socket {
     userId?: string;
+    userName?: string;
     sessionId?: string;
     sessionRole?: string;
+    // Set for anonymous guests connected through a share link
+    shareLinkId?: string;
+    shareSessionId?: string;
+    shareExpiresAt?: Date | null;
+    shareExpiryTimer?: NodeJS.Timeout;
 }
 
 export function setupTerminalGateway(io: Server) {
+    // Create a session's screen from the PTY buffer if it does not exist yet
+    const ensureScreen = (sessionId: string) => {
+        if (screenManager.exists(sessionId)) return;
+
+        const size = ptyManager.getSize(sessionId) ?? { cols: 120, rows: 30 };
+        const position = ptyManager.getStreamPosition(sessionId);
+        const buffer = ptyManager.getBuffer(sessionId);
+        screenManager.create(sessionId, size.cols, size.rows, (position?.offset ?? 0) - buffer.length);
+        screenManager.write(sessionId, buffer);
+    };
+
+    // What clients are told about a pause; remaining time avoids clock skew
+    const pauseState = (sessionId: string) => {
+        const pause = ptyManager.getPauseState(sessionId);
+        return {
+            paused: pause !== null,
+            timeoutAction: pause?.timeoutAction ?? null,
+            remainingMs: pause?.timeoutAt ? Math.max(0, pause.timeoutAt - Date.now()) : null,
+        };
+    };
+
+    // Bring a joining socket up to date: replay the missing output when
+    // resuming, otherwise send a full snapshot followed by anything newer
+    const catchUp = async (socket: AuthenticatedSocket, sessionId: string, resume?: StreamPosition) => {
+        if (resume) {
+            const missing = ptyManager.getOutputSince(sessionId, resume);
+            if (missing !== null) {
+                if (missing) {
+                    socket.emit('session:output', { streamId: resume.streamId, offset: resume.offset, data: missing });
+                }
+                return;
+            }
+        }
+
+        ensureScreen(sessionId);
+        const snapshot = await screenManager.getSnapshot(sessionId);
+        const position = ptyManager.getStreamPosition(sessionId);
+        if (!snapshot || !position) return;
+
+        const snapshotPosition = { streamId: position.streamId, offset: snapshot.offset };
+        socket.emit('session:snapshot', { ...snapshotPosition, data: snapshot.data });
+
+        const newer = ptyManager.getOutputSince(sessionId, snapshotPosition);
+        if (newer) {
+            socket.emit('session:output', { ...snapshotPosition, data: newer });
+        }
+    };
+
+    // Record the diff base and watch the working directory of a running session
+    const watchWorkingDirectory = async (sessionId: string) => {
+        const launch = await sessionService.getLaunchOptions(sessionId);
+        await sessionService.recordBaseCommit(sessionId, launch.cwd);
+        if (!fileWatcherService.exists(sessionId) && ptyManager.exists(sessionId)) {
+            fileWatcherService.watch(sessionId, launch.cwd);
+        }
+    };
+
+    // The terminal size and how it is chosen, as sent to clients
+    const sizeState = (sessionId: string) => {
+        const { policy, cols, rows } = sizeArbiter.getPolicy(sessionId);
+        return {
+            ...(ptyManager.getSize(sessionId) ?? { cols: 120, rows: 30 }),
+            policy,
+            fixedCols: cols,
+            fixedRows: rows,
+        };
+    };
+
+    // Resize the PTY to whatever the session's size policy now picks
+    const applySize = (sessionId: string) => {
+        const driver = inputControl.getState(sessionId).driver;
+        const target = sizeArbiter.resolve(sessionId, driver?.socketId);
+        const current = ptyManager.getSize(sessionId);
+        if (!target || !current || (target.cols === current.cols && target.rows === current.rows)) return;
+
+        try {
+            ptyManager.resize(sessionId, target.cols, target.rows);
+        } catch (error) {
+            // Ignore resize errors
+        }
+    };
+
+    // Tell a session who is connected, and dashboards how many
+    const presenceTimers = new Map<string, NodeJS.Timeout>();
+    const broadcastPresence = (sessionId: string) => {
+        clearTimeout(presenceTimers.get(sessionId));
+        presenceTimers.delete(sessionId);
+
+        io.to(`session:${sessionId}`).emit('session:presence', {
+            users: presenceTracker.list(sessionId),
+            driverSocketId: inputControl.getState(sessionId).driver?.socketId ?? null,
+        });
+        io.to(`presence:${sessionId}`).emit('presence:count', {
+            sessionId,
+            count: presenceTracker.countUsers(sessionId),
+        });
+    };
+
+    const recordActivity = (socket: AuthenticatedSocket, sessionId: string) => {
+        presenceTracker.touch(sessionId, socket.id);
+        if (presenceTimers.has(sessionId)) return;
+        presenceTimers.set(sessionId, setTimeout(() => broadcastPresence(sessionId), PRESENCE_THROTTLE_MS));
+    };
+
+    // Add a socket to a session's room and roster
+    const enterSession = (socket: AuthenticatedSocket, sessionId: string, role: SessionRole) => {
+        socket.join(`session:${sessionId}`);
+        presenceTracker.join(sessionId, {
+            socketId: socket.id,
+            userId: socket.userId!,
+            name: socket.userName!,
+            role,
+            device: detectDevice(socket.handshake.headers['user-agent']),
+        });
+        broadcastPresence(sessionId);
+    };
+
+    // Forget a socket's window, control and presence when it leaves a session
+    const leaveSession = (socket: AuthenticatedSocket, sessionId: string) => {
+        if (presenceTracker.leave(sessionId, socket.id)) {
+            broadcastPresence(sessionId);
+        }
+        sizeArbiter.remove(sessionId, socket.id);
+        inputControl.release(sessionId, socket.id);
+        applySize(sessionId);
+    };
+
+    // Disconnect a guest when its share link expires
+    const scheduleShareExpiry = (socket: AuthenticatedSocket, expiresAt: Date) => {
+        const remainingMs = expiresAt.getTime() - Date.now();
+        socket.shareExpiryTimer = setTimeout(() => {
+            if (remainingMs > MAX_TIMER_MS) {
+                scheduleShareExpiry(socket, expiresAt);
+                return;
+            }
+            socket.emit('error', { message: 'This share link has expired' });
+            socket.disconnect(true);
+        }, Math.min(Math.max(0, remainingMs), MAX_TIMER_MS));
+    };
+
     // Authentication middleware
     io.use(async (socket: AuthenticatedSocket, next) => {
+        // Guests with a share link may only watch the shared session
+        const shareToken = socket.handshake.auth.shareToken;
+        if (shareToken) {
+            try {
+                const share = await shareService.authorize(shareToken, socket.handshake.auth.passphrase);
+                socket.shareLinkId = share.shareLinkId;
+                socket.shareSessionId = share.sessionId;
+                socket.shareExpiresAt = share.expiresAt;
+                socket.userId = `guest:${socket.id}`;
+                socket.userName = 'Guest';
+                return next();
+            } catch (error) {
+                return next(new Error(error instanceof Error ? error.message : 'Invalid share link'));
+            }
+        }
+
         try {
             const token = socket.handshake.auth.token;
             if (!token) {
@@ -31,41 +229,111 @@ export function setupTerminalGateway(io: Server) {
             }
 
             socket.userId = user.id;
+            socket.userName = user.name;
             next();
         } catch (error) {
             next(new Error('Invalid token'));
         }
     });
 
+    // Sockets already told that someone else is driving, until control changes
+    const deniedSockets = new Set<string>();
+
+    const controllerOf = (socket: AuthenticatedSocket): Controller => ({
+        socketId: socket.id,
+        userId: socket.userId!,
+        name: socket.userName!,
+    });
+
+    // Typing while nobody drives takes the keyboard; otherwise only the driver may type
+    const claimInput = (socket: AuthenticatedSocket, sessionId: string): boolean => {
+        if (inputControl.take(sessionId, controllerOf(socket))) {
+            return true;
+        }
+        if (!deniedSockets.has(socket.id)) {
+            deniedSockets.add(socket.id);
+            const driver = inputControl.getState(sessionId).driver;
+            socket.emit('error', { message: `${driver?.name ?? 'Another user'} has control of the keyboard. Request control to type.` });
+        }
+        return false;
+    };
+
     io.on('connection', (socket: AuthenticatedSocket) => {
         console.log(`User ${socket.userId} connected`);
 
+        if (socket.shareExpiresAt) {
+            scheduleShareExpiry(socket, socket.shareExpiresAt);
+        }
+
         // Join a terminal session
-        socket.on('session:join', async (sessionId: string) => {
+        socket.on('session:join', async (payload: JoinPayload) => {
+            const { sessionId, resume } = typeof payload === 'string' ? { sessionId: payload, resume: undefined } : payload;
             try {
-                // Check access
-                const role = await sessionService.getUserRole(sessionId, socket.userId!);
+                // Check access; guests only ever watch their shared session
+                const role = socket.shareLinkId
+                    ? (sessionId === socket.shareSessionId ? 'VIEWER' : null)
+                    : await sessionService.getUserRole(sessionId, socket.userId!);
                 if (!role) {
                     socket.emit('error', { message: 'Access denied' });
                     return;
                 }
 
+                if (socket.sessionId && socket.sessionId !== sessionId) {
+                    leaveSession(socket, socket.sessionId);
+                }
                 socket.sessionId = sessionId;
                 socket.sessionRole = role;
-                socket.join(`session:${sessionId}`);
 
-                // Send buffered output to late joiner
-                const buffer = ptyManager.getBuffer(sessionId);
-                if (buffer) {
-                    socket.emit('session:output', buffer);
+                // Headless sessions have no terminal; their conversation is
+                // sent instead and clients drop events they already have
+                if (await sessionService.getMode(sessionId) === 'HEADLESS') {
+                    socket.emit('session:joined', { sessionId, role, mode: 'HEADLESS' });
+                    enterSession(socket, sessionId, role);
+                    const history = await chatService.getHistory(sessionId);
+                    socket.emit('session:chat:history', {
+                        ...history,
+                        running: headlessManager.exists(sessionId),
+                        busy: headlessManager.isBusy(sessionId),
+                    });
+                    return;
                 }
 
-                // If no PTY exists for this session, spawn one
+                // Joining never starts a process; the last screen is shown
+                // until someone starts the session
                 if (!ptyManager.exists(sessionId)) {
-                    ptyManager.spawn(sessionId);
+                    const saved = await sessionService.getOutputBuffer(sessionId);
+                    if (saved) {
+                        socket.emit('session:snapshot', { streamId: null, offset: 0, data: saved });
+                    }
+                    socket.emit('session:joined', { sessionId, role, mode: 'TERMINAL', running: false });
+                    enterSession(socket, sessionId, role);
+                    return;
+                }
+
+                if (!sizeArbiter.hasPolicy(sessionId)) {
+                    sizeArbiter.setPolicy(sessionId, await sessionService.getSizePolicy(sessionId));
+                }
+
+                if (!fileWatcherService.exists(sessionId)) {
+                    watchWorkingDirectory(sessionId).catch(() => { });
+                }
+
+                socket.emit('session:joined', { sessionId, role, mode: 'TERMINAL', running: true });
+
+                // Catch up, then stream live output. Nothing is emitted between
+                // the synchronous tail of catchUp and joining the room.
+                await catchUp(socket, sessionId, resume);
+                enterSession(socket, sessionId, role);
+
+                socket.emit('session:control', inputControl.getState(sessionId));
+                socket.emit('session:size', sizeState(sessionId));
+                socket.emit('session:pause', pauseState(sessionId));
+
+                const prompt = promptDetector.getCurrent(sessionId);
+                if (prompt) {
+                    socket.emit('session:prompt', prompt);
                 }
 
-                socket.emit('session:joined', { sessionId, role });
                 console.log(`User ${socket.userId} joined session ${sessionId} as ${role}`);
             } catch (error) {
                 socket.emit('error', { message: 'Failed to join session' });
@@ -79,11 +347,25 @@ export function setupTerminalGateway(io: Server) {
                 return;
             }
 
-            if (socket.sessionRole === 'VIEWER') {
+            if (socket.sessionRole === 'VIEWER' || socket.shareLinkId) {
                 socket.emit('error', { message: 'Viewers cannot send input' });
                 return;
             }
 
+            if (!ptyManager.exists(socket.sessionId)) {
+                socket.emit('error', { message: 'Session is not running' });
+                return;
+            }
+
+            if (ptyManager.getPauseState(socket.sessionId)) {
+                socket.emit('error', { message: 'Session is paused' });
+                return;
+            }
+
+            if (!claimInput(socket, socket.sessionId)) return;
+
+            recordActivity(socket, socket.sessionId);
+
             try {
                 ptyManager.write(socket.sessionId, data);
             } catch (error) {
@@ -91,20 +373,202 @@ export function setupTerminalGateway(io: Server) {
             }
         });
 
-        // Resize terminal
-        socket.on('session:resize', ({ cols, rows }: { cols: number; rows: number }) => {
+        // Answer a detected prompt (operators/owners only)
+        socket.on('session:prompt:respond', (payload: { promptId: string; key: string }) => {
+            if (typeof payload !== 'object' || payload === null) return;
+            const { promptId, key } = payload;
+            if (typeof promptId !== 'string' || typeof key !== 'string') return;
+
+            if (!socket.sessionId) {
+                socket.emit('error', { message: 'Not in a session' });
+                return;
+            }
+
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot answer prompts' });
+                return;
+            }
+
+            if (ptyManager.getPauseState(socket.sessionId)) {
+                socket.emit('error', { message: 'Session is paused' });
+                return;
+            }
+
+            if (!claimInput(socket, socket.sessionId)) return;
+
+            recordActivity(socket, socket.sessionId);
+
+            try {
+                if (!promptDetector.respond(socket.sessionId, promptId, key)) {
+                    socket.emit('error', { message: 'Prompt is no longer active' });
+                }
+            } catch (error) {
+                socket.emit('error', { message: 'Failed to answer prompt' });
+            }
+        });
+
+        // Take the keyboard; owners may take it from the current driver
+        socket.on('session:control:take', (payload?: { force?: boolean }) => {
+            if (!socket.sessionId) return;
+            const force = typeof payload === 'object' && payload !== null && payload.force === true;
+
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot send input' });
+                return;
+            }
+
+            if (force && socket.sessionRole !== 'OWNER') {
+                socket.emit('error', { message: 'Only the owner can take control' });
+                return;
+            }
+
+            if (!inputControl.take(socket.sessionId, controllerOf(socket), force)) {
+                socket.emit('error', { message: 'Someone else has control. Request it instead.' });
+            }
+        });
+
+        // Ask the driver for the keyboard
+        socket.on('session:control:request', () => {
+            if (!socket.sessionId) return;
+
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot send input' });
+                return;
+            }
+
+            inputControl.request(socket.sessionId, controllerOf(socket));
+        });
+
+        // Hand the keyboard to a requester (driver/owner only)
+        socket.on('session:control:grant', (payload: { socketId: string }) => {
+            if (!socket.sessionId || typeof payload !== 'object' || payload === null) return;
+            const { socketId } = payload;
+            if (typeof socketId !== 'string') return;
+
+            if (!inputControl.isDriver(socket.sessionId, socket.id) && socket.sessionRole !== 'OWNER') {
+                socket.emit('error', { message: 'Only the driver or the owner can grant control' });
+                return;
+            }
+
+            if (!inputControl.grant(socket.sessionId, socketId)) {
+                socket.emit('error', { message: 'Control request is no longer pending' });
+            }
+        });
+
+        // Give up the keyboard or withdraw a request
+        socket.on('session:control:release', () => {
+            if (!socket.sessionId) return;
+            inputControl.release(socket.sessionId, socket.id);
+        });
+
+        // Take the keyboard away from the driver (owner only)
+        socket.on('session:control:revoke', () => {
+            if (!socket.sessionId) return;
+
+            if (socket.sessionRole !== 'OWNER') {
+                socket.emit('error', { message: 'Only the owner can revoke control' });
+                return;
+            }
+
+            inputControl.revoke(socket.sessionId);
+        });
+
+        // Report the size that fits this client's window; the session's
+        // size policy decides whether it is applied (viewers are ignored)
+        socket.on('session:resize', (payload: { cols: number; rows: number }) => {
+            if (!socket.sessionId || socket.sessionRole === 'VIEWER' || socket.shareLinkId) return;
+            if (typeof payload !== 'object' || payload === null) return;
+            const { cols, rows } = payload;
+            if (!Number.isFinite(cols) || !Number.isFinite(rows)) return;
+
+            sizeArbiter.report(socket.sessionId, socket.id, { cols, rows });
+            applySize(socket.sessionId);
+        });
+
+        // Choose how the terminal size is picked (owner only)
+        socket.on('session:size:policy', async (payload: { policy: string; cols?: number; rows?: number }) => {
+            const sessionId = socket.sessionId;
+            if (!sessionId || typeof payload !== 'object' || payload === null) return;
+            const { policy, cols, rows } = payload;
+
+            if (socket.sessionRole !== 'OWNER') {
+                socket.emit('error', { message: 'Only the owner can change the terminal size policy' });
+                return;
+            }
+
+            if (!SIZE_POLICIES.includes(policy)) {
+                socket.emit('error', { message: 'Unknown size policy' });
+                return;
+            }
+
+            let setting: SizePolicySetting = { policy: policy as SizePolicySetting['policy'], cols: null, rows: null };
+            if (policy === 'FIXED') {
+                if (!Number.isFinite(cols) || !Number.isFinite(rows)) {
+                    socket.emit('error', { message: 'A fixed size needs columns and rows' });
+                    return;
+                }
+                setting = { ...setting, ...clampSize({ cols: cols!, rows: rows! }) };
+            }
+
+            try {
+                await sessionService.updateSizePolicy(sessionId, setting);
+                sizeArbiter.setPolicy(sessionId, setting);
+                applySize(sessionId);
+                io.to(`session:${sessionId}`).emit('session:size', sizeState(sessionId));
+            } catch (error) {
+                socket.emit('error', { message: 'Failed to change size policy' });
+            }
+        });
+
+        // Suspend or continue the session's processes (operators/owners only)
+        socket.on('session:pause', () => {
+            if (!socket.sessionId) return;
+
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot pause sessions' });
+                return;
+            }
+
+            try {
+                ptyManager.pause(socket.sessionId);
+            } catch (error) {
+                socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to pause session' });
+            }
+        });
+
+        socket.on('session:resume', () => {
             if (!socket.sessionId) return;
 
+            if (socket.sessionRole === 'VIEWER') {
+                socket.emit('error', { message: 'Viewers cannot resume sessions' });
+                return;
+            }
+
             try {
-                ptyManager.resize(socket.sessionId, cols, rows);
+                ptyManager.resume(socket.sessionId);
             } catch (error) {
-                // Ignore resize errors
+                socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to resume session' });
+            }
+        });
+
+        // Follow the number of connected users of sessions, e.g. on the dashboard
+        socket.on('presence:subscribe', async (sessionIds: string[]) => {
+            if (!Array.isArray(sessionIds) || socket.shareLinkId) return;
+
+            for (const sessionId of sessionIds.slice(0, MAX_PRESENCE_SUBSCRIPTIONS)) {
+                if (typeof sessionId !== 'string') continue;
+                const role = await sessionService.getUserRole(sessionId, socket.userId!).catch(() => null);
+                if (!role) continue;
+
+                socket.join(`presence:${sessionId}`);
+                socket.emit('presence:count', { sessionId, count: presenceTracker.countUsers(sessionId) });
             }
         });
 
         // Leave session
         socket.on('session:leave', () => {
             if (socket.sessionId) {
+                leaveSession(socket, socket.sessionId);
                 socket.leave(`session:${socket.sessionId}`);
                 socket.sessionId = undefined;
                 socket.sessionRole = undefined;
@@ -112,20 +576,173 @@ export function setupTerminalGateway(io: Server) {
         });
 
         socket.on('disconnect', () => {
+            clearTimeout(socket.shareExpiryTimer);
+            if (socket.sessionId) {
+                leaveSession(socket, socket.sessionId);
+            }
+            deniedSockets.delete(socket.id);
             console.log(`User ${socket.userId} disconnected`);
         });
     });
 
+    // Persist the screen snapshot at most once per interval
+    const persistTimers = new Map<string, NodeJS.Timeout>();
+    const persistSnapshot = async (sessionId: string) => {
+        clearTimeout(persistTimers.get(sessionId));
+        persistTimers.delete(sessionId);
+        const snapshot = await screenManager.getSnapshot(sessionId);
+        if (snapshot) {
+            await sessionService.updateOutputBuffer(sessionId, snapshot.data);
+        }
+    };
+
+    // Look for a prompt shortly after output, once per burst
+    const scanTimers = new Map<string, NodeJS.Timeout>();
+    const schedulePromptScan = (sessionId: string) => {
+        if (scanTimers.has(sessionId)) return;
+        scanTimers.set(sessionId, setTimeout(() => {
+            scanTimers.delete(sessionId);
+            promptDetector.scan(sessionId).catch(() => { });
+        }, PROMPT_SCAN_DELAY_MS));
+    };
+
+    inputControl.on('change', (sessionId: string, state: ControlState) => {
+        deniedSockets.clear();
+        io.to(`session:${sessionId}`).emit('session:control', state);
+        broadcastPresence(sessionId);
+        // Under the driver policy the new driver's window sets the size
+        applySize(sessionId);
+    });
+
+    // Apply role changes and removals to sockets that already joined
+    memberService.on('change', (sessionId: string, userId: string, role: SessionRole | null) => {
+        const room = `session:${sessionId}`;
+        for (const socketId of io.sockets.adapter.rooms.get(room) ?? []) {
+            const socket = io.sockets.sockets.get(socketId) as AuthenticatedSocket | undefined;
+            if (!socket || socket.userId !== userId || socket.sessionId !== sessionId) continue;
+
+            if (!role) {
+                leaveSession(socket, sessionId);
+                socket.leave(room);
+                socket.sessionId = undefined;
+                socket.sessionRole = undefined;
+                socket.emit('session:removed', { sessionId });
+                continue;
+            }
+
+            socket.sessionRole = role;
+            presenceTracker.setRole(sessionId, userId, role);
+            if (role === 'VIEWER') {
+                sizeArbiter.remove(sessionId, socket.id);
+                inputControl.release(sessionId, socket.id);
+                applySize(sessionId);
+            }
+            socket.emit('session:role', { role });
+        }
+
+        broadcastPresence(sessionId);
+        io.to(room).emit('session:members');
+    });
+
+    // Disconnect guests whose share link was revoked
+    shareService.on('revoke', (shareLinkId: string) => {
+        for (const socket of io.sockets.sockets.values() as IterableIterator<AuthenticatedSocket>) {
+            if (socket.shareLinkId === shareLinkId) {
+                socket.emit('error', { message: 'This share link has been revoked' });
+                socket.disconnect(true);
+            }
+        }
+    });
+
+    promptDetector.on('change', (sessionId: string, prompt: DetectedPrompt | null) => {
+        io.to(`session:${sessionId}`).emit('session:prompt', prompt);
+    });
+
     // Forward PTY output to connected clients
-    ptyManager.on('output', (sessionId: string, data: string) => {
-        io.to(`session:${sessionId}`).emit('session:output', data);
+    ptyManager.on('output', (sessionId: string, data: string, offset: number) => {
+        const streamId = ptyManager.getStreamPosition(sessionId)?.streamId;
+        io.to(`session:${sessionId}`).emit('session:output', { streamId, offset, data });
+
+        if (screenManager.exists(sessionId)) {
+            screenManager.write(sessionId, data);
+        } else {
+            // Seeded from the PTY buffer, which already includes this chunk
+            ensureScreen(sessionId);
+        }
+
+        schedulePromptScan(sessionId);
 
-        // Persist to database periodically (debounced in production)
-        sessionService.updateOutputBuffer(sessionId, ptyManager.getBuffer(sessionId)).catch(() => { });
+        if (!persistTimers.has(sessionId)) {
+            persistTimers.set(sessionId, setTimeout(() => {
+                persistSnapshot(sessionId).catch(() => { });
+            }, PERSIST_INTERVAL_MS));
+        }
     });
 
-    ptyManager.on('exit', (sessionId: string, exitCode: number) => {
-        io.to(`session:${sessionId}`).emit('session:exit', { exitCode });
-        sessionService.updateStatus(sessionId, 'TERMINATED').catch(() => { });
+    // Tell clients which files changed in the working directory
+    fileWatcherService.on('change', (sessionId: string, paths: string[]) => {
+        io.to(`session:${sessionId}`).emit('session:fschange', { paths });
+    });
+
+    // A started process: joined clients start over and report their sizes
+    ptyManager.on('spawn', (sessionId: string) => {
+        // Left by a killed process whose exit has not arrived yet
+        screenManager.dispose(sessionId);
+        if (!fileWatcherService.exists(sessionId)) {
+            watchWorkingDirectory(sessionId).catch(() => { });
+        }
+        sessionService.getSizePolicy(sessionId)
+            .then((setting) => {
+                sizeArbiter.setPolicy(sessionId, setting);
+                applySize(sessionId);
+            })
+            .catch(() => { });
+        io.to(`session:${sessionId}`).emit('session:started', { sessionId });
+    });
+
+    // The session is about to be ended for being idle or running too long
+    ptyManager.on('limit-warning', (sessionId: string, limit: SessionLimitKind, remainingMs: number) => {
+        const minutes = Math.max(1, Math.round(remainingMs / 60000));
+        const message = limit === 'idle'
+            ? `Session has been idle and will be stopped in ${minutes} min unless there is activity`
+            : `Session reaches its maximum runtime and will be stopped in ${minutes} min`;
+        io.to(`session:${sessionId}`).emit('session:warning', { limit, remainingMs, message });
+    });
+
+    ptyManager.on('pause', (sessionId: string) => {
+        sessionService.updateStatus(sessionId, 'PAUSED').catch(() => { });
+        io.to(`session:${sessionId}`).emit('session:pause', pauseState(sessionId));
+    });
+
+    ptyManager.on('resume', (sessionId: string) => {
+        sessionService.updateStatus(sessionId, 'ACTIVE').catch(() => { });
+        io.to(`session:${sessionId}`).emit('session:pause', pauseState(sessionId));
+    });
+
+    ptyManager.on('resize', (sessionId: string, cols: number, rows: number) => {
+        screenManager.resize(sessionId, cols, rows);
+        io.to(`session:${sessionId}`).emit('session:size', sizeState(sessionId));
+    });
+
+    ptyManager.on('exit', async (sessionId: string, exitCode: number, signal: number | undefined, reason: string | undefined, streamId: string) => {
+        // The session was restarted before its old process exited; nothing to clean up
+        if (ptyManager.isStale(sessionId, streamId)) return;
+
+        io.to(`session:${sessionId}`).emit('session:exit', {
+            exitCode,
+            signal: signal ? signalName(signal) : null,
+            reason,
+        });
+        sessionService.recordExit(sessionId, exitCode).catch(() => { });
+        fileWatcherService.unwatch(sessionId);
+        promptDetector.clear(sessionId);
+        inputControl.clear(sessionId);
+        sizeArbiter.clear(sessionId);
+
+        await persistSnapshot(sessionId).catch(() => { });
+        // Started again while the snapshot was saved: the screen is the new process's
+        if (!ptyManager.exists(sessionId)) {
+            screenManager.dispose(sessionId);
+        }
     });
 }
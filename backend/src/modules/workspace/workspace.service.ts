@@ -0,0 +1,227 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../../config/env.js';
+
+const execFileAsync = promisify(execFile);
+
+// Upper bound on the unified diff returned for the live diff view
+const MAX_DIFF_BYTES = 1024 * 1024;
+// Untracked files beyond this are listed without content
+const MAX_UNTRACKED_DIFFS = 100;
+
+export type WorkspaceCleanup = 'keep' | 'archive' | 'remove';
+
+export interface Workspace {
+    repoPath: string;
+    branch: string;
+    path: string;
+}
+
+export interface DiffFileStat {
+    path: string;
+    additions: number;
+    deletions: number;
+    binary: boolean;
+    untracked: boolean;
+}
+
+export interface WorkspaceDiff {
+    baseCommit: string;
+    files: DiffFileStat[];
+    diff: string;
+    truncated: boolean;
+}
+
+export interface WorkspaceStatus {
+    branch: string;
+    dirty: boolean;
+    changedFiles: number;
+    exists: boolean;
+}
+
+/**
+ * Thrown when a workspace cannot be created from the requested repository and branch
+ */
+export class WorkspaceError extends Error { }
+
+function isWithin(parent: string, target: string): boolean {
+    const relative = path.relative(parent, target);
+    return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+}
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', ['-C', cwd, ...args]);
+        return stdout.trim();
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(stderr || 'git command failed');
+    }
+}
+
+// Run git for its raw output. `git diff` exits with 1 when it finds
+// differences in --no-index mode, which is not an error here.
+async function gitOutput(cwd: string, ...args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', ['-C', cwd, ...args], { maxBuffer: MAX_DIFF_BYTES * 4 });
+        return stdout;
+    } catch (error) {
+        const { code, stdout, stderr } = error as { code?: number; stdout?: string; stderr?: string };
+        if (code === 1 && stdout !== undefined) {
+            return stdout;
+        }
+        throw new Error(stderr?.trim() || 'git command failed');
+    }
+}
+
+export class WorkspaceService {
+    /**
+     * Create a dedicated git worktree for a session. The branch is checked
+     * out if it exists, otherwise it is created from the repository's HEAD.
+     */
+    async create(sessionId: string, repoPath: string, branch: string): Promise<Workspace> {
+        if (!env.WORKSPACE_REPOS_ROOT) {
+            throw new WorkspaceError('Workspaces are disabled on this server');
+        }
+
+        // Compare real paths so symlinks cannot point outside the allowed directory
+        const root = await fs.realpath(env.WORKSPACE_REPOS_ROOT).catch(() => {
+            throw new WorkspaceError('Workspace repository directory does not exist');
+        });
+        const repo = await fs.realpath(repoPath).catch(() => {
+            throw new WorkspaceError('Repository not found');
+        });
+        if (!isWithin(root, repo)) {
+            throw new WorkspaceError('Repository is outside the allowed directory');
+        }
+
+        const topLevel = await git(repo, 'rev-parse', '--show-toplevel')
+            .then(dir => fs.realpath(dir))
+            .catch(() => {
+                throw new WorkspaceError('Not a git repository');
+            });
+        // A subdirectory of the root may belong to a repository that encloses the root
+        if (!isWithin(root, topLevel)) {
+            throw new WorkspaceError('Repository is outside the allowed directory');
+        }
+        await git(topLevel, 'check-ref-format', '--branch', branch).catch(() => {
+            throw new WorkspaceError('Invalid branch name');
+        });
+
+        const worktreePath = path.resolve(env.WORKSPACES_DIR, sessionId);
+        await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+
+        const branchExists = await git(topLevel, 'rev-parse', '--verify', '--quiet', `refs/heads/${branch}`)
+            .then(() => true, () => false);
+
+        // git's own message names server paths, so it is only logged
+        const added = branchExists
+            ? git(topLevel, 'worktree', 'add', worktreePath, branch)
+            : git(topLevel, 'worktree', 'add', '-b', branch, worktreePath);
+        await added.catch((error) => {
+            console.error(`[Workspace] Failed to add worktree for session ${sessionId}:`, error);
+            throw new WorkspaceError('Could not create a worktree; the branch may be checked out elsewhere');
+        });
+
+        return { repoPath: topLevel, branch, path: worktreePath };
+    }
+
+    /**
+     * Get the current branch and dirty state of a worktree
+     */
+    async getStatus(worktreePath: string): Promise<WorkspaceStatus> {
+        try {
+            const [branch, porcelain] = await Promise.all([
+                git(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD'),
+                git(worktreePath, 'status', '--porcelain'),
+            ]);
+            const changedFiles = porcelain ? porcelain.split('\n').length : 0;
+            return { branch, dirty: changedFiles > 0, changedFiles, exists: true };
+        } catch {
+            return { branch: '', dirty: false, changedFiles: 0, exists: false };
+        }
+    }
+
+    /**
+     * Get the commit a directory's repository is at, or null if the
+     * directory is not inside a git repository
+     */
+    async getHead(dir: string): Promise<string | null> {
+        return git(dir, 'rev-parse', '--verify', 'HEAD').catch(() => null);
+    }
+
+    /**
+     * Diff a directory's working tree, including untracked files, against
+     * a base commit
+     */
+    async getDiff(dir: string, baseCommit: string): Promise<WorkspaceDiff> {
+        const [numstat, tracked, untracked] = await Promise.all([
+            gitOutput(dir, 'diff', '--no-color', '--no-renames', '--numstat', baseCommit),
+            gitOutput(dir, 'diff', '--no-color', '--no-renames', baseCommit),
+            git(dir, 'ls-files', '--others', '--exclude-standard'),
+        ]);
+
+        const files: DiffFileStat[] = numstat.split('\n').filter(Boolean).map((line) => {
+            const [additions, deletions, ...rest] = line.split('\t');
+            return {
+                path: rest.join('\t'),
+                additions: Number(additions) || 0,
+                deletions: Number(deletions) || 0,
+                binary: additions === '-',
+                untracked: false,
+            };
+        });
+
+        let diff = tracked;
+        const untrackedPaths = untracked ? untracked.split('\n') : [];
+        for (const [index, filePath] of untrackedPaths.entries()) {
+            // `--no-index` compares against /dev/null to render a new-file patch
+            const patch = index < MAX_UNTRACKED_DIFFS && diff.length < MAX_DIFF_BYTES
+                ? await gitOutput(dir, 'diff', '--no-color', '--no-index', '--', '/dev/null', filePath)
+                : '';
+            const lines = patch.split('\n');
+            files.push({
+                path: filePath,
+                additions: lines.filter(line => line.startsWith('+') && !line.startsWith('+++')).length,
+                deletions: 0,
+                binary: patch.includes('Binary files'),
+                untracked: true,
+            });
+            diff += patch;
+        }
+
+        const truncated = diff.length > MAX_DIFF_BYTES;
+        return {
+            baseCommit,
+            files,
+            diff: truncated ? diff.slice(0, MAX_DIFF_BYTES) : diff,
+            truncated,
+        };
+    }
+
+    /**
+     * Dispose of a session's worktree when the session is deleted.
+     * Archiving moves the worktree aside; the branch is kept in every case.
+     */
+    async cleanup(workspace: Workspace, mode: WorkspaceCleanup): Promise<void> {
+        switch (mode) {
+            case 'keep':
+                return;
+            case 'archive': {
+                const archiveDir = path.resolve(env.WORKSPACES_DIR, 'archive');
+                await fs.mkdir(archiveDir, { recursive: true });
+                const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+                const target = path.join(archiveDir, `${path.basename(workspace.path)}-${stamp}`);
+                await git(workspace.repoPath, 'worktree', 'move', workspace.path, target);
+                return;
+            }
+            case 'remove':
+                await git(workspace.repoPath, 'worktree', 'remove', '--force', workspace.path);
+                return;
+        }
+    }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        // Settings are validated on import; unit tests never open the database
+        env: {
+            DATABASE_URL: 'file:./test.db',
+            JWT_SECRET: 'unit-test-secret-at-least-32-characters',
+        },
+    },
+});
@@ -0,0 +1,30 @@
+// Web Push handling, imported into the generated service worker
+
+self.addEventListener('push', (event) => {
+    const data = event.data ? event.data.json() : {};
+
+    event.waitUntil(
+        self.registration.showNotification(data.title || 'PubTerm', {
+            body: data.body,
+            tag: data.tag,
+            icon: '/pwa-192x192.png',
+            data: { url: data.url || '/' },
+        })
+    );
+});
+
+// Focus an open window on the session, or open a new one
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL(event.notification.data.url, self.location.origin).href;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+            const existing = windows.find((client) => client.url === url) || windows[0];
+            if (existing) {
+                return existing.focus().then((client) => client.navigate(url));
+            }
+            return self.clients.openWindow(url);
+        })
+    );
+});
@@ -1,8 +1,12 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './hooks/useAuth';
 import { LoginPage } from './pages/LoginPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { SessionPage } from './pages/SessionPage';
+import { RecordingPage } from './pages/RecordingPage';
+import { JoinPage } from './pages/JoinPage';
+import { SharePage } from './pages/SharePage';
+import { SearchPage } from './pages/SearchPage';
 import './index.css';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -30,6 +34,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -45,7 +50,9 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (user) {
-    return <Navigate to="/dashboard" replace />;
+    // Pages that sent the user to sign in (e.g. an invite link) pass where to return
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from ?? '/dashboard'} replace />;
   }
 
   return <>{children}</>;
@@ -78,6 +85,24 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/session/:id/recordings/:recordingId"
+        element={
+          <ProtectedRoute>
+            <RecordingPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/search"
+        element={
+          <ProtectedRoute>
+            <SearchPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route path="/join/:token" element={<JoinPage />} />
+      <Route path="/share/:token" element={<SharePage />} />
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
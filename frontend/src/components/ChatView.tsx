@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface ChatEvent {
+    id: string;
+    seq: number;
+    kind: 'USER' | 'ASSISTANT' | 'TOOL_USE' | 'TOOL_RESULT' | 'SYSTEM';
+    text: string;
+    toolName: string | null;
+    toolUseId: string | null;
+    isError: boolean;
+    createdAt: string;
+}
+
+interface ChatTurn {
+    id: string;
+    costUsd: number;
+    durationMs: number;
+    numTurns: number;
+    inputTokens: number;
+    outputTokens: number;
+    isError: boolean;
+    createdAt: string;
+}
+
+interface ChatStatus {
+    running: boolean;
+    busy: boolean;
+}
+
+interface ChatHistory extends ChatStatus {
+    events: ChatEvent[];
+    turns: ChatTurn[];
+}
+
+interface ChatViewProps {
+    socket: Socket | null;
+    sessionId: string;
+    canWrite: boolean;
+}
+
+// Events can arrive both live and in the history sent on join
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+    const known = new Set(current.map(item => item.id));
+    return [...current, ...incoming.filter(item => !known.has(item.id))];
+}
+
+function formatTurn(turn: ChatTurn): string {
+    const tokens = `${turn.inputTokens.toLocaleString()} in / ${turn.outputTokens.toLocaleString()} out`;
+    return `$${turn.costUsd.toFixed(4)} · ${tokens} · ${(turn.durationMs / 1000).toFixed(1)}s`;
+}
+
+function ChatMessage({ event }: { event: ChatEvent }) {
+    switch (event.kind) {
+        case 'TOOL_USE':
+            return (
+                <details className="chat-tool">
+                    <summary>🔧 {event.toolName ?? 'Tool'}</summary>
+                    <pre>{event.text}</pre>
+                </details>
+            );
+        case 'TOOL_RESULT':
+            return (
+                <details className={`chat-tool ${event.isError ? 'error' : ''}`}>
+                    <summary>{event.isError ? 'Tool error' : 'Tool result'}</summary>
+                    <pre>{event.text || '(no output)'}</pre>
+                </details>
+            );
+        case 'SYSTEM':
+            return <div className={`chat-system ${event.isError ? 'error' : ''}`}>{event.text}</div>;
+        default:
+            return (
+                <div className={`chat-message ${event.kind === 'USER' ? 'user' : 'assistant'}`}>
+                    {event.text}
+                </div>
+            );
+    }
+}
+
+export function ChatView({ socket, sessionId, canWrite }: ChatViewProps) {
+    const [events, setEvents] = useState<ChatEvent[]>([]);
+    const [turns, setTurns] = useState<ChatTurn[]>([]);
+    const [status, setStatus] = useState<ChatStatus>({ running: false, busy: false });
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState('');
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handleHistory = (history: ChatHistory) => {
+            setEvents(current => mergeById(current, history.events).sort((a, b) => a.seq - b.seq));
+            setTurns(current => mergeById(current, history.turns));
+            setStatus({ running: history.running, busy: history.busy });
+        };
+        const handleEvent = (event: ChatEvent) => {
+            setEvents(current => mergeById(current, [event]).sort((a, b) => a.seq - b.seq));
+        };
+        const handleTurn = (turn: ChatTurn) => setTurns(current => mergeById(current, [turn]));
+        const handleStatus = (data: ChatStatus) => setStatus(data);
+        const handleError = (data: { message: string }) => setError(data.message);
+        const handleConnect = () => socket.emit('session:join', sessionId);
+
+        socket.on('session:chat:history', handleHistory);
+        socket.on('session:chat:event', handleEvent);
+        socket.on('session:chat:turn', handleTurn);
+        socket.on('session:chat:status', handleStatus);
+        socket.on('error', handleError);
+        socket.on('connect', handleConnect);
+
+        if (socket.connected) {
+            socket.emit('session:join', sessionId);
+        }
+
+        return () => {
+            socket.off('session:chat:history', handleHistory);
+            socket.off('session:chat:event', handleEvent);
+            socket.off('session:chat:turn', handleTurn);
+            socket.off('session:chat:status', handleStatus);
+            socket.off('error', handleError);
+            socket.off('connect', handleConnect);
+            socket.emit('session:leave');
+        };
+    }, [socket, sessionId]);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'end' });
+    }, [events, turns]);
+
+    const handleSend = () => {
+        const text = draft.trim();
+        if (!socket || !text || status.busy) return;
+        setError('');
+        socket.emit('session:chat:send', { text });
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSend();
+        }
+    };
+
+    // Each turn's cost follows the messages that came before it
+    const timeline: Array<{ key: string; node: React.ReactNode }> = [];
+    let turnIndex = 0;
+    for (const event of events) {
+        while (turnIndex < turns.length && turns[turnIndex].createdAt <= event.createdAt) {
+            const turn = turns[turnIndex++];
+            timeline.push({ key: turn.id, node: <div className="chat-turn">{formatTurn(turn)}</div> });
+        }
+        timeline.push({ key: event.id, node: <ChatMessage event={event} /> });
+    }
+    for (const turn of turns.slice(turnIndex)) {
+        timeline.push({ key: turn.id, node: <div className="chat-turn">{formatTurn(turn)}</div> });
+    }
+
+    return (
+        <div className="chat-view">
+            <div className="chat-messages">
+                {timeline.length === 0 ? (
+                    <p className="text-muted text-sm">
+                        {canWrite ? 'Send a prompt to start the conversation.' : 'No messages yet.'}
+                    </p>
+                ) : (
+                    timeline.map(item => <div key={item.key}>{item.node}</div>)
+                )}
+                {status.busy && <div className="chat-system">Claude is working…</div>}
+                <div ref={endRef} />
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+
+            {canWrite ? (
+                <div className="chat-composer">
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Message Claude (Shift+Enter for a new line)"
+                        rows={3}
+                    />
+                    <div className="chat-composer-actions">
+                        {status.running && (
+                            <button className="btn btn-secondary" onClick={() => socket?.emit('session:chat:stop')}>
+                                Stop
+                            </button>
+                        )}
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleSend}
+                            disabled={status.busy || !draft.trim()}
+                        >
+                            Send
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-muted text-sm">Only operators can send messages.</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { contextFilesApi } from '../services/api';
+
+interface ContextFile {
+    id: string;
+    filename: string;
+    mimeType: string;
+    createdAt: string;
+}
+
+interface ContextFilesPanelProps {
+    token: string;
+    sessionId: string;
+    canWrite: boolean;
+}
+
+export function ContextFilesPanel({ token, sessionId, canWrite }: ContextFilesPanelProps) {
+    const [files, setFiles] = useState<ContextFile[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        contextFilesApi.list(token, sessionId)
+            .then(setFiles)
+            .catch((err) => console.error('Failed to load context files:', err));
+    }, [token, sessionId]);
+
+    const uploadFiles = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+
+        setIsUploading(true);
+        setMessage(null);
+        try {
+            for (const file of Array.from(fileList)) {
+                const created = await contextFilesApi.upload(token, sessionId, file);
+                setFiles((current) => [created, ...current]);
+            }
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Upload failed' });
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (canWrite) {
+            uploadFiles(e.dataTransfer.files);
+        }
+    };
+
+    const handleInject = async (file: ContextFile, mode: 'write' | 'paste') => {
+        setMessage(null);
+        try {
+            await contextFilesApi.inject(token, sessionId, file.id, mode);
+            setMessage({ type: 'success', text: mode === 'paste' ? `Referenced ${file.filename}` : `Wrote ${file.filename}` });
+        } catch (err) {
+            const text = err instanceof Error ? err.message : 'Failed to inject file';
+            // Offer to replace a file that already exists in the working directory
+            if (text.includes('already exists') && confirm(`${text}. Overwrite it?`)) {
+                await contextFilesApi.inject(token, sessionId, file.id, mode, true)
+                    .then(() => setMessage({ type: 'success', text: `Overwrote ${file.filename}` }))
+                    .catch((retryErr) => setMessage({ type: 'error', text: retryErr.message }));
+                return;
+            }
+            setMessage({ type: 'error', text });
+        }
+    };
+
+    const handleDelete = async (file: ContextFile) => {
+        if (!confirm(`Delete ${file.filename}?`)) return;
+
+        try {
+            await contextFilesApi.delete(token, sessionId, file.id);
+            setFiles((current) => current.filter((f) => f.id !== file.id));
+        } catch (err) {
+            console.error('Failed to delete context file:', err);
+        }
+    };
+
+    return (
+        <div className="context-files">
+            <h3>Context Files</h3>
+
+            {canWrite && (
+                <div
+                    className={`drop-zone ${isDragging ? 'dragging' : ''}`}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    onClick={() => inputRef.current?.click()}
+                >
+                    {isUploading ? <span className="loading-spinner" /> : 'Drop files or click to upload'}
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        multiple
+                        hidden
+                        onChange={(e) => {
+                            uploadFiles(e.target.files);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            )}
+
+            {message && (
+                <p className={`context-message ${message.type}`}>{message.text}</p>
+            )}
+
+            {files.length === 0 ? (
+                <p className="text-muted text-sm">No context files yet.</p>
+            ) : (
+                <ul className="context-file-list">
+                    {files.map((file) => (
+                        <li key={file.id} className="context-file-item">
+                            <span className="context-file-name font-mono" title={file.mimeType}>
+                                {file.filename}
+                            </span>
+                            {canWrite && (
+                                <div className="context-file-actions">
+                                    <button onClick={() => handleInject(file, 'write')} title="Write into working directory">
+                                        Write
+                                    </button>
+                                    <button onClick={() => handleInject(file, 'paste')} title="Write and reference it at the prompt">
+                                        @Ref
+                                    </button>
+                                    <button onClick={() => handleDelete(file)} title="Delete">
+                                        ✕
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { sessionsApi } from '../services/api';
+
+interface DiffFileStat {
+    path: string;
+    additions: number;
+    deletions: number;
+    binary: boolean;
+    untracked: boolean;
+}
+
+interface WorkspaceDiff {
+    baseCommit: string;
+    files: DiffFileStat[];
+    diff: string;
+    truncated: boolean;
+}
+
+interface DiffViewProps {
+    socket: Socket | null;
+    token: string;
+    sessionId: string;
+}
+
+// File changes arrive in bursts while Claude edits; refetch once they settle
+const REFRESH_DELAY_MS = 1000;
+
+function lineClass(line: string): string {
+    if (line.startsWith('diff --git')) return 'diff-line file';
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('index ')) return 'diff-line meta';
+    if (line.startsWith('@@')) return 'diff-line hunk';
+    if (line.startsWith('+')) return 'diff-line added';
+    if (line.startsWith('-')) return 'diff-line removed';
+    return 'diff-line';
+}
+
+export function DiffView({ socket, token, sessionId }: DiffViewProps) {
+    const [diff, setDiff] = useState<WorkspaceDiff | null>(null);
+    const [error, setError] = useState('');
+
+    const loadDiff = useCallback(() => {
+        sessionsApi.getDiff(token, sessionId)
+            .then((data: WorkspaceDiff) => {
+                setDiff(data);
+                setError('');
+            })
+            .catch((err) => setError(err.message));
+    }, [token, sessionId]);
+
+    useEffect(() => {
+        loadDiff();
+    }, [loadDiff]);
+
+    // Refresh when files in the working directory change
+    useEffect(() => {
+        if (!socket) return;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const handleChange = () => {
+            clearTimeout(timer);
+            timer = setTimeout(loadDiff, REFRESH_DELAY_MS);
+        };
+
+        socket.on('session:fschange', handleChange);
+        return () => {
+            clearTimeout(timer);
+            socket.off('session:fschange', handleChange);
+        };
+    }, [socket, loadDiff]);
+
+    const scrollToFile = (path: string) => {
+        document.getElementById(`diff-${path}`)?.scrollIntoView({ behavior: 'smooth' });
+    };
+
+    if (error) {
+        return (
+            <div className="diff-view">
+                <p className="text-muted">{error}</p>
+            </div>
+        );
+    }
+
+    if (!diff) {
+        return (
+            <div className="diff-view">
+                <div className="loading-spinner" />
+            </div>
+        );
+    }
+
+    const totalAdditions = diff.files.reduce((sum, file) => sum + file.additions, 0);
+    const totalDeletions = diff.files.reduce((sum, file) => sum + file.deletions, 0);
+
+    return (
+        <div className="diff-view">
+            <div className="diff-summary">
+                <span>
+                    {diff.files.length} file{diff.files.length === 1 ? '' : 's'} changed since{' '}
+                    <span className="font-mono">{diff.baseCommit.slice(0, 7)}</span>
+                </span>
+                <span className="diff-stat">
+                    <span className="additions">+{totalAdditions}</span>
+                    <span className="deletions">−{totalDeletions}</span>
+                </span>
+            </div>
+
+            {diff.files.length === 0 ? (
+                <p className="text-muted">No changes yet.</p>
+            ) : (
+                <>
+                    <ul className="diff-files">
+                        {diff.files.map((file) => (
+                            <li key={file.path}>
+                                <button className="diff-file" onClick={() => scrollToFile(file.path)}>
+                                    <span className="font-mono">{file.path}</span>
+                                    {file.untracked && <span className="badge">new</span>}
+                                    <span className="diff-stat">
+                                        {file.binary ? (
+                                            <span className="text-muted">binary</span>
+                                        ) : (
+                                            <>
+                                                <span className="additions">+{file.additions}</span>
+                                                <span className="deletions">−{file.deletions}</span>
+                                            </>
+                                        )}
+                                    </span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <pre className="diff-content">
+                        {diff.diff.split('\n').map((line, index) => {
+                            // Anchor each file header so the file list can jump to it
+                            const target = line.startsWith('diff --git') ? line.split(' b/').pop() : undefined;
+                            return (
+                                <div key={index} id={target ? `diff-${target}` : undefined} className={lineClass(line)}>
+                                    {line || ' '}
+                                </div>
+                            );
+                        })}
+                    </pre>
+
+                    {diff.truncated && (
+                        <p className="text-muted text-sm">Diff truncated; open the files to see the rest.</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { sessionsApi } from '../services/api';
+import type { ExportFormat } from '../services/api';
+
+interface ExportControlProps {
+    token: string;
+    sessionId: string;
+    sessionName: string;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+    { format: 'md', label: 'Markdown' },
+    { format: 'html', label: 'HTML (with colors)' },
+    { format: 'txt', label: 'Plain text' },
+];
+
+export function ExportControl({ token, sessionId, sessionName }: ExportControlProps) {
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleExport = async (format: ExportFormat) => {
+        setIsExporting(true);
+        setError('');
+        try {
+            const blob = await sessionsApi.exportTranscript(token, sessionId, format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session'}.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to export session');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="export-control text-sm">
+            {error && <span className="export-control-error">{error}</span>}
+            <select
+                value=""
+                onChange={(e) => handleExport(e.target.value as ExportFormat)}
+                disabled={isExporting}
+                aria-label="Download transcript"
+            >
+                <option value="" disabled>{isExporting ? 'Exporting…' : 'Download…'}</option>
+                {FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>{label}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github-dark.css';
+import { filesApi } from '../services/api';
+
+interface FileEntry {
+    name: string;
+    path: string;
+    type: 'file' | 'directory';
+    size: number;
+    modifiedAt: string;
+}
+
+interface FileContent {
+    path: string;
+    size: number;
+    binary: boolean;
+    tooLarge: boolean;
+    content: string | null;
+}
+
+interface FileBrowserProps {
+    token: string;
+    sessionId: string;
+    onCollapse: () => void;
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function highlight(file: FileContent): string {
+    const content = file.content ?? '';
+    const extension = file.path.split('.').pop()?.toLowerCase();
+    if (extension && hljs.getLanguage(extension)) {
+        return hljs.highlight(content, { language: extension }).value;
+    }
+    return hljs.highlightAuto(content).value;
+}
+
+export function FileBrowser({ token, sessionId, onCollapse }: FileBrowserProps) {
+    // Loaded directory listings, keyed by directory path ('' is the root)
+    const [directories, setDirectories] = useState<Record<string, FileEntry[]>>({});
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [error, setError] = useState('');
+    const [openFile, setOpenFile] = useState<FileContent | null>(null);
+
+    const loadDirectory = useCallback((path: string) => {
+        return filesApi.list(token, sessionId, path)
+            .then((entries: FileEntry[]) => {
+                setDirectories((current) => ({ ...current, [path]: entries }));
+                setError('');
+            })
+            .catch((err) => setError(err.message));
+    }, [token, sessionId]);
+
+    useEffect(() => {
+        loadDirectory('');
+    }, [loadDirectory]);
+
+    const handleRefresh = () => {
+        setDirectories({});
+        loadDirectory('');
+        expanded.forEach((path) => loadDirectory(path));
+    };
+
+    const toggleDirectory = (path: string) => {
+        const next = new Set(expanded);
+        if (next.has(path)) {
+            next.delete(path);
+        } else {
+            next.add(path);
+            if (!directories[path]) {
+                loadDirectory(path);
+            }
+        }
+        setExpanded(next);
+    };
+
+    const handleOpenFile = async (path: string) => {
+        try {
+            setOpenFile(await filesApi.read(token, sessionId, path));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read file');
+        }
+    };
+
+    const handleDownload = async (path: string) => {
+        try {
+            const blob = await filesApi.download(token, sessionId, path);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = path.split('/').pop() ?? 'download';
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to download file');
+        }
+    };
+
+    const highlighted = useMemo(
+        () => (openFile?.content != null ? highlight(openFile) : ''),
+        [openFile]
+    );
+
+    const renderDirectory = (path: string, depth: number) => {
+        const entries = directories[path];
+        if (!entries) {
+            return <li className="file-tree-loading text-muted" style={{ paddingLeft: depth * 12 }}>Loading...</li>;
+        }
+        if (entries.length === 0) {
+            return <li className="file-tree-loading text-muted" style={{ paddingLeft: depth * 12 }}>Empty</li>;
+        }
+
+        return entries.map((entry) => (
+            <li key={entry.path}>
+                <button
+                    className="file-tree-item"
+                    style={{ paddingLeft: depth * 12 + 8 }}
+                    onClick={() => entry.type === 'directory' ? toggleDirectory(entry.path) : handleOpenFile(entry.path)}
+                    title={entry.path}
+                >
+                    <span className="file-tree-icon">
+                        {entry.type === 'directory' ? (expanded.has(entry.path) ? '▾' : '▸') : '·'}
+                    </span>
+                    <span className="file-tree-name">{entry.name}</span>
+                </button>
+                {entry.type === 'directory' && expanded.has(entry.path) && (
+                    <ul>{renderDirectory(entry.path, depth + 1)}</ul>
+                )}
+            </li>
+        ));
+    };
+
+    return (
+        <aside className="file-browser">
+            <div className="file-browser-header">
+                <h3>Files</h3>
+                <div className="file-browser-actions">
+                    <button onClick={handleRefresh} title="Refresh">⟳</button>
+                    <button onClick={onCollapse} title="Collapse">«</button>
+                </div>
+            </div>
+
+            {error && <p className="context-message error">{error}</p>}
+
+            <ul className="file-tree font-mono">
+                {renderDirectory('', 0)}
+            </ul>
+
+            {/* Viewer Modal */}
+            {openFile && (
+                <div className="modal-overlay" onClick={() => setOpenFile(null)}>
+                    <div className="modal file-viewer animate-slide-up" onClick={(e) => e.stopPropagation()}>
+                        <div className="file-viewer-header">
+                            <h2 className="font-mono">{openFile.path}</h2>
+                            <span className="text-muted text-sm">{formatSize(openFile.size)}</span>
+                        </div>
+
+                        {openFile.content != null ? (
+                            <pre className="file-viewer-content">
+                                <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted }} />
+                            </pre>
+                        ) : (
+                            <p className="text-muted">
+                                {openFile.binary ? 'Binary file' : 'File is too large to preview'}; download it instead.
+                            </p>
+                        )}
+
+                        <div className="modal-actions">
+                            <button className="btn btn-secondary" onClick={() => setOpenFile(null)}>
+                                Close
+                            </button>
+                            <button className="btn btn-primary" onClick={() => handleDownload(openFile.path)}>
+                                Download
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </aside>
+    );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface Controller {
+    socketId: string;
+    userId: string;
+    name: string;
+}
+
+interface ControlState {
+    driver: Controller | null;
+    requests: Controller[];
+}
+
+interface InputControlBarProps {
+    socket: Socket | null;
+    canWrite: boolean;
+    isOwner: boolean;
+}
+
+export function InputControlBar({ socket, canWrite, isOwner }: InputControlBarProps) {
+    const [state, setState] = useState<ControlState>({ driver: null, requests: [] });
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handleControl = (data: ControlState) => setState(data);
+        const handleExit = () => setState({ driver: null, requests: [] });
+
+        socket.on('session:control', handleControl);
+        socket.on('session:exit', handleExit);
+        return () => {
+            socket.off('session:control', handleControl);
+            socket.off('session:exit', handleExit);
+        };
+    }, [socket]);
+
+    if (!socket) return null;
+
+    const isDriver = state.driver?.socketId === socket.id;
+    const hasRequested = state.requests.some(request => request.socketId === socket.id);
+    const canGrant = isDriver || isOwner;
+
+    return (
+        <div className="input-control">
+            <span className="input-control-driver text-sm">
+                {state.driver
+                    ? isDriver ? 'You are driving' : `${state.driver.name} is driving`
+                    : 'Nobody is driving'}
+            </span>
+
+            {canWrite && !state.driver && (
+                <button className="btn btn-secondary" onClick={() => socket.emit('session:control:take')}>
+                    Take control
+                </button>
+            )}
+            {canWrite && isDriver && (
+                <button className="btn btn-secondary" onClick={() => socket.emit('session:control:release')}>
+                    Release
+                </button>
+            )}
+            {canWrite && state.driver && !isDriver && (
+                hasRequested ? (
+                    <button className="btn btn-secondary" onClick={() => socket.emit('session:control:release')}>
+                        Cancel request
+                    </button>
+                ) : (
+                    <button className="btn btn-secondary" onClick={() => socket.emit('session:control:request')}>
+                        Request control
+                    </button>
+                )
+            )}
+            {isOwner && state.driver && !isDriver && (
+                <>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => socket.emit('session:control:take', { force: true })}
+                    >
+                        Take over
+                    </button>
+                    <button className="btn btn-danger" onClick={() => socket.emit('session:control:revoke')}>
+                        Revoke
+                    </button>
+                </>
+            )}
+
+            {canGrant && state.requests.map(request => (
+                <button
+                    key={request.socketId}
+                    className="btn btn-primary"
+                    onClick={() => socket.emit('session:control:grant', { socketId: request.socketId })}
+                >
+                    Give control to {request.name}
+                </button>
+            ))}
+        </div>
+    );
+}
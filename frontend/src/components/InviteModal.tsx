@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { sessionsApi } from '../services/api';
+
+interface Invite {
+    id: string;
+    token: string;
+    role: 'VIEWER' | 'OPERATOR';
+    status: 'active' | 'expired' | 'revoked' | 'used';
+    expiresAt: string;
+    maxUses: number | null;
+    useCount: number;
+    email: string | null;
+    createdAt: string;
+    createdBy: { id: string; name: string } | null;
+    redemptions: Array<{ createdAt: string; user: { id: string; name: string; email: string } }>;
+}
+
+interface InviteModalProps {
+    token: string;
+    sessionId: string;
+    onClose: () => void;
+}
+
+function inviteLink(inviteToken: string): string {
+    return `${window.location.origin}/join/${inviteToken}`;
+}
+
+export function InviteModal({ token, sessionId, onClose }: InviteModalProps) {
+    const [invites, setInvites] = useState<Invite[]>([]);
+    const [role, setRole] = useState<'VIEWER' | 'OPERATOR'>('VIEWER');
+    const [maxUses, setMaxUses] = useState('1');
+    const [email, setEmail] = useState('');
+    const [newLink, setNewLink] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        sessionsApi.listInvites(token, sessionId)
+            .then(setInvites)
+            .catch((err) => setError(err.message));
+    }, [token, sessionId]);
+
+    const reload = async () => {
+        setInvites(await sessionsApi.listInvites(token, sessionId));
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        try {
+            const invite = await sessionsApi.createInvite(token, sessionId, role, {
+                maxUses: maxUses ? Number(maxUses) : null,
+                email: email.trim() || undefined,
+            });
+            setNewLink(inviteLink(invite.token));
+            await reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create invite');
+        }
+    };
+
+    const handleRevoke = async (invite: Invite) => {
+        if (!confirm('Revoke this invite? The link will stop working.')) return;
+
+        setError('');
+        try {
+            await sessionsApi.revokeInvite(token, sessionId, invite.id);
+            await reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal invite-modal animate-slide-up" onClick={(e) => e.stopPropagation()}>
+                <h2>Invite to Session</h2>
+
+                <form onSubmit={handleCreate}>
+                    <div className="form-group">
+                        <label>Role</label>
+                        <div className="role-selector">
+                            <button
+                                type="button"
+                                className={`role-option ${role === 'VIEWER' ? 'active' : ''}`}
+                                onClick={() => setRole('VIEWER')}
+                            >
+                                <strong>Viewer</strong>
+                                <span>Can only watch the terminal</span>
+                            </button>
+                            <button
+                                type="button"
+                                className={`role-option ${role === 'OPERATOR' ? 'active' : ''}`}
+                                onClick={() => setRole('OPERATOR')}
+                            >
+                                <strong>Operator</strong>
+                                <span>Can type in the terminal</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="invite-uses">Uses</label>
+                        <select id="invite-uses" value={maxUses} onChange={(e) => setMaxUses(e.target.value)}>
+                            <option value="1">Single use</option>
+                            <option value="5">5 people</option>
+                            <option value="25">25 people</option>
+                            <option value="">Unlimited until it expires</option>
+                        </select>
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="invite-email">Only for email (optional)</label>
+                        <input
+                            id="invite-email"
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="teammate@example.com"
+                        />
+                    </div>
+
+                    <button type="submit" className="btn btn-primary w-full">
+                        Generate Invite Link
+                    </button>
+                </form>
+
+                {newLink && (
+                    <div className="invite-link-box" style={{ marginTop: 'var(--space-md)' }}>
+                        <input type="text" value={newLink} readOnly className="invite-link-input" />
+                        <button className="btn btn-primary" onClick={() => navigator.clipboard.writeText(newLink)}>
+                            Copy
+                        </button>
+                    </div>
+                )}
+
+                {error && <div className="error-message">{error}</div>}
+
+                {invites.length > 0 && (
+                    <ul className="invite-list">
+                        {invites.map((invite) => (
+                            <li key={invite.id} className={`invite-item ${invite.status}`}>
+                                <div className="invite-summary">
+                                    <span className={`badge badge-${invite.role.toLowerCase()}`}>{invite.role}</span>
+                                    <span className="text-sm">
+                                        {invite.useCount}/{invite.maxUses ?? '∞'} used
+                                        {invite.email && ` · ${invite.email}`}
+                                    </span>
+                                    <span className="invite-status text-sm">
+                                        {invite.status === 'active'
+                                            ? `expires ${new Date(invite.expiresAt).toLocaleString()}`
+                                            : invite.status}
+                                    </span>
+                                </div>
+                                <p className="text-muted text-sm">
+                                    Created by {invite.createdBy?.name ?? 'a former user'}
+                                    {invite.redemptions.length > 0 &&
+                                        ` · joined: ${invite.redemptions.map((redemption) => redemption.user.name).join(', ')}`}
+                                </p>
+                                {invite.status === 'active' && (
+                                    <div className="invite-actions">
+                                        <button onClick={() => navigator.clipboard.writeText(inviteLink(invite.token))}>
+                                            Copy link
+                                        </button>
+                                        <button onClick={() => handleRevoke(invite)}>Revoke</button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <button
+                    className="btn btn-secondary w-full"
+                    onClick={onClose}
+                    style={{ marginTop: 'var(--space-md)' }}
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { sessionsApi } from '../services/api';
+import type { ProcessSignal } from '../services/api';
+
+interface LifecycleControlProps {
+    token: string;
+    sessionId: string;
+    running: boolean;
+}
+
+const SIGNALS: Array<{ signal: ProcessSignal; label: string }> = [
+    { signal: 'SIGINT', label: 'Interrupt (SIGINT)' },
+    { signal: 'SIGTERM', label: 'Terminate (SIGTERM)' },
+    { signal: 'SIGKILL', label: 'Kill (SIGKILL)' },
+];
+
+export function LifecycleControl({ token, sessionId, running }: LifecycleControlProps) {
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setError('');
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSignal = (signal: ProcessSignal) => {
+        if (signal === 'SIGKILL' && !confirm('Kill the session\'s processes? Unsaved work is lost.')) return;
+        run(() => sessionsApi.signal(token, sessionId, signal));
+    };
+
+    return (
+        <div className="lifecycle-control text-sm">
+            {error && <span className="lifecycle-error">{error}</span>}
+            {running ? (
+                <>
+                    <select
+                        value=""
+                        onChange={(e) => handleSignal(e.target.value as ProcessSignal)}
+                        disabled={isBusy}
+                        aria-label="Send signal"
+                    >
+                        <option value="" disabled>Signal…</option>
+                        {SIGNALS.map(({ signal, label }) => (
+                            <option key={signal} value={signal}>{label}</option>
+                        ))}
+                    </select>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => run(() => sessionsApi.lifecycle(token, sessionId, 'restart'))}
+                        disabled={isBusy}
+                    >
+                        Restart
+                    </button>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => run(() => sessionsApi.lifecycle(token, sessionId, 'stop'))}
+                        disabled={isBusy}
+                    >
+                        Stop
+                    </button>
+                </>
+            ) : (
+                <button
+                    className="btn btn-primary"
+                    onClick={() => run(() => sessionsApi.lifecycle(token, sessionId, 'start'))}
+                    disabled={isBusy}
+                >
+                    Start
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { membersApi } from '../services/api';
+
+interface Member {
+    id: string;
+    role: 'VIEWER' | 'OPERATOR' | 'OWNER';
+    createdAt: string;
+    user: { id: string; name: string; email: string };
+}
+
+interface MembersPanelProps {
+    socket: Socket | null;
+    token: string;
+    sessionId: string;
+    isOwner: boolean;
+}
+
+export function MembersPanel({ socket, token, sessionId, isOwner }: MembersPanelProps) {
+    const [members, setMembers] = useState<Member[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const load = () => {
+            membersApi.list(token, sessionId)
+                .then(setMembers)
+                .catch((err) => console.error('Failed to load members:', err));
+        };
+        load();
+
+        // Someone's role changed or they were removed
+        socket?.on('session:members', load);
+        return () => {
+            socket?.off('session:members', load);
+        };
+    }, [socket, token, sessionId]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setError('');
+        try {
+            await action();
+            setMembers(await membersApi.list(token, sessionId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update member');
+        }
+    };
+
+    const handleRoleChange = (member: Member, role: 'VIEWER' | 'OPERATOR') => {
+        runAction(() => membersApi.updateRole(token, sessionId, member.user.id, role));
+    };
+
+    const handleRemove = (member: Member) => {
+        if (!confirm(`Remove ${member.user.name} from this session?`)) return;
+        runAction(() => membersApi.remove(token, sessionId, member.user.id));
+    };
+
+    const handleTransfer = (member: Member) => {
+        if (!confirm(`Make ${member.user.name} the owner? You will stay on as an operator.`)) return;
+        runAction(() => membersApi.transferOwnership(token, sessionId, member.user.id));
+    };
+
+    return (
+        <div className="members-panel">
+            <h3>Members</h3>
+            <ul className="members-list">
+                {members.map((member) => (
+                    <li key={member.id} className="member-item">
+                        <span className="member-name" title={member.user.email}>{member.user.name}</span>
+                        {isOwner && member.role !== 'OWNER' ? (
+                            <div className="member-actions">
+                                <select
+                                    value={member.role}
+                                    onChange={(e) => handleRoleChange(member, e.target.value as 'VIEWER' | 'OPERATOR')}
+                                    aria-label={`Role of ${member.user.name}`}
+                                >
+                                    <option value="VIEWER">Viewer</option>
+                                    <option value="OPERATOR">Operator</option>
+                                </select>
+                                <button onClick={() => handleTransfer(member)} title="Make owner">
+                                    ♛
+                                </button>
+                                <button onClick={() => handleRemove(member)} title="Remove">
+                                    ✕
+                                </button>
+                            </div>
+                        ) : (
+                            <span className={`member-role badge badge-${member.role.toLowerCase()}`}>
+                                {member.role}
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {error && <p className="context-message error">{error}</p>}
+        </div>
+    );
+}
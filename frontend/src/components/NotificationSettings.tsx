@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { notificationsApi } from '../services/api';
+import type { NotificationPreferences } from '../services/api';
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from '../services/push';
+
+interface NotificationSettingsProps {
+    token: string;
+    sessionId: string;
+    onClose: () => void;
+}
+
+export function NotificationSettings({ token, sessionId, onClose }: NotificationSettingsProps) {
+    const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+    const [deviceEnabled, setDeviceEnabled] = useState(false);
+    const [idleMinutes, setIdleMinutes] = useState('');
+    const [pattern, setPattern] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        notificationsApi.getPreferences(token, sessionId)
+            .then((data) => {
+                setPreferences(data);
+                setIdleMinutes(data.notifyIdleMinutes?.toString() ?? '');
+                setPattern(data.notifyPattern ?? '');
+            })
+            .catch((err) => setError(err.message));
+
+        getPushSubscription()
+            .then((subscription) => setDeviceEnabled(subscription !== null))
+            .catch(() => setDeviceEnabled(false));
+    }, [token, sessionId]);
+
+    const handleToggleDevice = async () => {
+        setError('');
+        try {
+            if (deviceEnabled) {
+                await disablePush(token);
+                setDeviceEnabled(false);
+            } else {
+                await enablePush(token);
+                setDeviceEnabled(true);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update this device');
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!preferences) return;
+
+        setIsSaving(true);
+        setError('');
+        try {
+            await notificationsApi.updatePreferences(token, sessionId, {
+                ...preferences,
+                notifyIdleMinutes: idleMinutes ? Number(idleMinutes) : null,
+                notifyPattern: pattern.trim() || null,
+            });
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal animate-slide-up" onClick={(e) => e.stopPropagation()}>
+                <h2>Notifications</h2>
+
+                <div className="form-group">
+                    <label>This device</label>
+                    {isPushSupported() ? (
+                        <button type="button" className="btn btn-secondary" onClick={handleToggleDevice}>
+                            {deviceEnabled ? 'Disable on this device' : 'Enable on this device'}
+                        </button>
+                    ) : (
+                        <p className="text-muted text-sm">
+                            This browser does not support push notifications. Install the app to enable them.
+                        </p>
+                    )}
+                </div>
+
+                {preferences && (
+                    <form onSubmit={handleSave}>
+                        <div className="form-group">
+                            <label>Notify me when</label>
+                            <label className="checkbox-label">
+                                <input
+                                    type="checkbox"
+                                    checked={preferences.notifyOnPrompt}
+                                    onChange={(e) => setPreferences({ ...preferences, notifyOnPrompt: e.target.checked })}
+                                />
+                                Claude is waiting for approval or a choice
+                            </label>
+                            <label className="checkbox-label">
+                                <input
+                                    type="checkbox"
+                                    checked={preferences.notifyOnExit}
+                                    onChange={(e) => setPreferences({ ...preferences, notifyOnExit: e.target.checked })}
+                                />
+                                The session exits
+                            </label>
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="notify-idle">Idle for (minutes)</label>
+                            <input
+                                id="notify-idle"
+                                type="number"
+                                min={1}
+                                max={1440}
+                                placeholder="Off"
+                                value={idleMinutes}
+                                onChange={(e) => setIdleMinutes(e.target.value)}
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="notify-pattern">Output matches (regex)</label>
+                            <input
+                                id="notify-pattern"
+                                type="text"
+                                className="font-mono"
+                                placeholder="e.g. tests? failed"
+                                maxLength={200}
+                                value={pattern}
+                                onChange={(e) => setPattern(e.target.value)}
+                            />
+                        </div>
+
+                        {error && <div className="error-message">{error}</div>}
+
+                        <div className="modal-actions">
+                            <button type="button" className="btn btn-secondary" onClick={onClose}>
+                                Cancel
+                            </button>
+                            <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                                {isSaving ? <span className="loading-spinner" /> : 'Save'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {!preferences && error && <div className="error-message">{error}</div>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface PauseState {
+    paused: boolean;
+    timeoutAction: 'resume' | 'terminate' | null;
+    // Time left before the timeout action runs; null = paused until resumed
+    remainingMs: number | null;
+}
+
+interface PauseControlProps {
+    socket: Socket | null;
+    canWrite: boolean;
+}
+
+function formatRemaining(ms: number): string {
+    const minutes = Math.ceil(ms / 60000);
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function PauseControl({ socket, canWrite }: PauseControlProps) {
+    const [pause, setPause] = useState<PauseState | null>(null);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        socket.on('session:pause', setPause);
+        return () => {
+            socket.off('session:pause', setPause);
+        };
+    }, [socket]);
+
+    if (!socket || !pause) return null;
+
+    return (
+        <div className="pause-control text-sm">
+            {pause.paused && (
+                <span className="pause-control-status">
+                    ⏸ Paused
+                    {pause.remainingMs !== null &&
+                        ` · ${pause.timeoutAction === 'terminate' ? 'ends' : 'resumes'} in ${formatRemaining(pause.remainingMs)}`}
+                </span>
+            )}
+            {canWrite && (
+                <button
+                    className="btn btn-secondary"
+                    onClick={() => socket.emit(pause.paused ? 'session:resume' : 'session:pause')}
+                    title={pause.paused ? 'Continue the session' : 'Suspend the session until resumed'}
+                >
+                    {pause.paused ? 'Resume' : 'Pause'}
+                </button>
+            )}
+        </div>
+    );
+}
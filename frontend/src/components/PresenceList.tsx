@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface PresenceUser {
+    socketId: string;
+    userId: string;
+    name: string;
+    role: string;
+    device: 'mobile' | 'desktop';
+    connectedMs: number;
+    idleMs: number;
+}
+
+interface PresenceState {
+    users: PresenceUser[];
+    driverSocketId: string | null;
+    // When the update arrived, to age the idle times between updates
+    receivedAt: number;
+}
+
+interface PresenceListProps {
+    socket: Socket | null;
+}
+
+// Typed within this long counts as typing now
+const TYPING_WINDOW_MS = 3000;
+const TICK_INTERVAL_MS = 5000;
+
+function formatIdle(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return 'active';
+    if (minutes < 60) return `idle ${minutes}m`;
+    return `idle ${Math.floor(minutes / 60)}h`;
+}
+
+export function PresenceList({ socket }: PresenceListProps) {
+    const [presence, setPresence] = useState<PresenceState | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handlePresence = (data: Omit<PresenceState, 'receivedAt'>) => {
+            const receivedAt = Date.now();
+            setPresence({ ...data, receivedAt });
+            setNow(receivedAt);
+        };
+
+        socket.on('session:presence', handlePresence);
+        return () => {
+            socket.off('session:presence', handlePresence);
+        };
+    }, [socket]);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    if (!presence) return null;
+
+    const elapsed = now - presence.receivedAt;
+
+    return (
+        <div className="presence">
+            <h3>Online ({presence.users.length})</h3>
+            <ul className="members-list">
+                {presence.users.map((entry) => {
+                    const idleMs = entry.idleMs + elapsed;
+                    const isDriver = entry.socketId === presence.driverSocketId;
+                    return (
+                        <li key={entry.socketId} className="member-item">
+                            <span className="member-name">
+                                <span className="presence-dot" />
+                                {entry.name}
+                                {entry.socketId === socket?.id && <span className="text-muted"> (you)</span>}
+                            </span>
+                            <span className="presence-detail text-muted text-sm">
+                                {entry.device === 'mobile' ? '📱' : '💻'}
+                                {' '}
+                                {isDriver && idleMs < TYPING_WINDOW_MS ? 'typing…' : isDriver ? '⌨ driving' : formatIdle(idleMs)}
+                            </span>
+                            <span className={`member-role badge badge-${entry.role.toLowerCase()}`}>
+                                {entry.role}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
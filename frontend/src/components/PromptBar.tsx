@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface PromptOption {
+    key: string;
+    label: string;
+}
+
+interface DetectedPrompt {
+    id: string;
+    kind: 'permission' | 'choice';
+    question: string;
+    context: string[];
+    options: PromptOption[];
+    selected: number;
+}
+
+interface PromptBarProps {
+    socket: Socket | null;
+    canWrite: boolean;
+}
+
+export function PromptBar({ socket, canWrite }: PromptBarProps) {
+    const [prompt, setPrompt] = useState<DetectedPrompt | null>(null);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handlePrompt = (data: DetectedPrompt | null) => setPrompt(data);
+        const handleExit = () => setPrompt(null);
+
+        socket.on('session:prompt', handlePrompt);
+        socket.on('session:exit', handleExit);
+        return () => {
+            socket.off('session:prompt', handlePrompt);
+            socket.off('session:exit', handleExit);
+        };
+    }, [socket]);
+
+    if (!prompt) return null;
+
+    const handleRespond = (option: PromptOption) => {
+        socket?.emit('session:prompt:respond', { promptId: prompt.id, key: option.key });
+        setPrompt(null);
+    };
+
+    return (
+        <div className={`prompt-bar prompt-${prompt.kind} animate-slide-up`}>
+            {prompt.context.length > 0 && (
+                <pre className="prompt-context">{prompt.context.join('\n')}</pre>
+            )}
+            <p className="prompt-question">{prompt.question}</p>
+
+            {canWrite ? (
+                <div className="prompt-options">
+                    {prompt.options.map((option, index) => (
+                        <button
+                            key={option.key}
+                            className={`btn ${index === 0 ? 'btn-primary' : 'btn-secondary'}`}
+                            onClick={() => handleRespond(option)}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-muted text-sm">Waiting for an operator to answer.</p>
+            )}
+        </div>
+    );
+}
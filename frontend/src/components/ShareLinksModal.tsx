@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { sharesApi } from '../services/api';
+
+interface ShareLink {
+    id: string;
+    token: string;
+    status: 'active' | 'expired' | 'revoked';
+    expiresAt: string | null;
+    hasPassphrase: boolean;
+    createdAt: string;
+    createdBy: { id: string; name: string } | null;
+}
+
+interface ShareLinksModalProps {
+    token: string;
+    sessionId: string;
+    onClose: () => void;
+}
+
+function shareLink(shareToken: string): string {
+    return `${window.location.origin}/share/${shareToken}`;
+}
+
+export function ShareLinksModal({ token, sessionId, onClose }: ShareLinksModalProps) {
+    const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+    const [passphrase, setPassphrase] = useState('');
+    const [expiresInHours, setExpiresInHours] = useState('24');
+    const [newLink, setNewLink] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        sharesApi.list(token, sessionId)
+            .then(setShareLinks)
+            .catch((err) => setError(err.message));
+    }, [token, sessionId]);
+
+    const reload = async () => {
+        setShareLinks(await sharesApi.list(token, sessionId));
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        try {
+            const created = await sharesApi.create(token, sessionId, {
+                passphrase: passphrase || undefined,
+                expiresInHours: expiresInHours ? Number(expiresInHours) : undefined,
+            });
+            setNewLink(shareLink(created.token));
+            setPassphrase('');
+            await reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create share link');
+        }
+    };
+
+    const handleRevoke = async (link: ShareLink) => {
+        if (!confirm('Revoke this link? Anyone watching through it is disconnected.')) return;
+
+        setError('');
+        try {
+            await sharesApi.revoke(token, sessionId, link.id);
+            await reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal invite-modal animate-slide-up" onClick={(e) => e.stopPropagation()}>
+                <h2>Share Read-Only</h2>
+                <p className="text-secondary text-sm">
+                    Anyone with the link can watch this session without an account. They can never type.
+                </p>
+
+                <form onSubmit={handleCreate}>
+                    <div className="form-group">
+                        <label htmlFor="share-expiry">Expires</label>
+                        <select id="share-expiry" value={expiresInHours} onChange={(e) => setExpiresInHours(e.target.value)}>
+                            <option value="1">In 1 hour</option>
+                            <option value="24">In 1 day</option>
+                            <option value="168">In 7 days</option>
+                            <option value="">Never (until revoked)</option>
+                        </select>
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="share-passphrase">Passphrase (optional)</label>
+                        <input
+                            id="share-passphrase"
+                            type="password"
+                            value={passphrase}
+                            onChange={(e) => setPassphrase(e.target.value)}
+                            minLength={4}
+                            autoComplete="new-password"
+                        />
+                    </div>
+
+                    <button type="submit" className="btn btn-primary w-full">
+                        Generate Share Link
+                    </button>
+                </form>
+
+                {newLink && (
+                    <div className="invite-link-box" style={{ marginTop: 'var(--space-md)' }}>
+                        <input type="text" value={newLink} readOnly className="invite-link-input" />
+                        <button className="btn btn-primary" onClick={() => navigator.clipboard.writeText(newLink)}>
+                            Copy
+                        </button>
+                    </div>
+                )}
+
+                {error && <div className="error-message">{error}</div>}
+
+                {shareLinks.length > 0 && (
+                    <ul className="invite-list">
+                        {shareLinks.map((link) => (
+                            <li key={link.id} className={`invite-item ${link.status}`}>
+                                <div className="invite-summary">
+                                    <span className="badge badge-viewer">READ-ONLY</span>
+                                    <span className="text-sm">{link.hasPassphrase ? '🔒 passphrase' : 'no passphrase'}</span>
+                                    <span className="invite-status text-sm">
+                                        {link.status !== 'active'
+                                            ? link.status
+                                            : link.expiresAt
+                                                ? `expires ${new Date(link.expiresAt).toLocaleString()}`
+                                                : 'until revoked'}
+                                    </span>
+                                </div>
+                                <p className="text-muted text-sm">
+                                    Created by {link.createdBy?.name ?? 'a former user'} on {new Date(link.createdAt).toLocaleString()}
+                                </p>
+                                {link.status === 'active' && (
+                                    <div className="invite-actions">
+                                        <button onClick={() => navigator.clipboard.writeText(shareLink(link.token))}>
+                                            Copy link
+                                        </button>
+                                        <button onClick={() => handleRevoke(link)}>Revoke</button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <button
+                    className="btn btn-secondary w-full"
+                    onClick={onClose}
+                    style={{ marginTop: 'var(--space-md)' }}
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,57 +1,98 @@
 import { useEffect, useRef, useState } from 'react';
 import { Terminal as XTerm } from '@xterm/xterm';
+import type { ITerminalOptions } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { Socket } from 'socket.io-client';
 import '@xterm/xterm/css/xterm.css';
 
+const TERMINAL_OPTIONS: ITerminalOptions = {
+    theme: {
+        background: '#0a0a12',
+        foreground: '#e4e4ef',
+        cursor: '#6366f1',
+        cursorAccent: '#0a0a12',
+        selectionBackground: '#6366f180',
+        black: '#1a1a2e',
+        red: '#ef4444',
+        green: '#22c55e',
+        yellow: '#f59e0b',
+        blue: '#3b82f6',
+        magenta: '#a855f7',
+        cyan: '#06b6d4',
+        white: '#e4e4ef',
+        brightBlack: '#6b6b80',
+        brightRed: '#f87171',
+        brightGreen: '#4ade80',
+        brightYellow: '#fbbf24',
+        brightBlue: '#60a5fa',
+        brightMagenta: '#c084fc',
+        brightCyan: '#22d3ee',
+        brightWhite: '#ffffff',
+    },
+    fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+    fontSize: 14,
+    lineHeight: 1.2,
+    cursorBlink: true,
+    cursorStyle: 'bar',
+    scrollback: 10000,
+};
+
+// Position in the server's output stream, used to resume after reconnecting
+interface StreamPosition {
+    streamId: string;
+    offset: number;
+}
+
+interface OutputChunk extends StreamPosition {
+    data: string;
+}
+
+// Size chosen by the server under the session's size policy
+interface SizeState {
+    cols: number;
+    rows: number;
+    policy: 'DRIVER' | 'SMALLEST' | 'FIXED';
+}
+
 interface TerminalProps {
     socket: Socket | null;
     sessionId: string;
     canWrite: boolean;
+    // 'playback' renders without a socket; the caller writes output via onReady
+    mode?: 'live' | 'playback';
+    onReady?: (terminal: XTerm) => void;
 }
 
-export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
+export function Terminal({ socket, sessionId, canWrite, mode = 'live', onReady }: TerminalProps) {
     const containerRef = useRef<HTMLDivElement>(null);
+    const onReadyRef = useRef(onReady);
     const terminalRef = useRef<XTerm | null>(null);
-    const fitAddonRef = useRef<FitAddon | null>(null);
     const [isConnected, setIsConnected] = useState(false);
     const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
 
     useEffect(() => {
-        if (!containerRef.current || !socket) return;
+        onReadyRef.current = onReady;
+    }, [onReady]);
+
+    // Playback: plain terminal driven by the caller, sized by the recording
+    useEffect(() => {
+        if (!containerRef.current || mode !== 'playback') return;
+
+        const terminal = new XTerm({ ...TERMINAL_OPTIONS, cursorBlink: false, disableStdin: true });
+        terminal.open(containerRef.current);
+        terminalRef.current = terminal;
+        onReadyRef.current?.(terminal);
+
+        return () => {
+            terminal.dispose();
+        };
+    }, [mode]);
+
+    useEffect(() => {
+        if (!containerRef.current || !socket || mode !== 'live') return;
 
         // Create terminal
-        const terminal = new XTerm({
-            theme: {
-                background: '#0a0a12',
-                foreground: '#e4e4ef',
-                cursor: '#6366f1',
-                cursorAccent: '#0a0a12',
-                selectionBackground: '#6366f180',
-                black: '#1a1a2e',
-                red: '#ef4444',
-                green: '#22c55e',
-                yellow: '#f59e0b',
-                blue: '#3b82f6',
-                magenta: '#a855f7',
-                cyan: '#06b6d4',
-                white: '#e4e4ef',
-                brightBlack: '#6b6b80',
-                brightRed: '#f87171',
-                brightGreen: '#4ade80',
-                brightYellow: '#fbbf24',
-                brightBlue: '#60a5fa',
-                brightMagenta: '#c084fc',
-                brightCyan: '#22d3ee',
-                brightWhite: '#ffffff',
-            },
-            fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
-            fontSize: 14,
-            lineHeight: 1.2,
-            cursorBlink: true,
-            cursorStyle: 'bar',
-            scrollback: 10000,
-        });
+        const terminal = new XTerm(TERMINAL_OPTIONS);
 
         const fitAddon = new FitAddon();
         terminal.loadAddon(fitAddon);
@@ -59,12 +100,31 @@ export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
         fitAddon.fit();
 
         terminalRef.current = terminal;
-        fitAddonRef.current = fitAddon;
 
-        // Handle resize
+        // Tell the server what fits this window; it answers with the size to render
+        const reportSize = () => {
+            const dimensions = fitAddon.proposeDimensions();
+            if (canWrite && dimensions && dimensions.cols > 0 && dimensions.rows > 0) {
+                socket.emit('session:resize', { cols: dimensions.cols, rows: dimensions.rows });
+            }
+        };
+
+        // Shrink a terminal larger than the window; smaller ones are letterboxed
+        const updateScale = () => {
+            const container = containerRef.current;
+            const element = terminal.element;
+            if (!container || !element) return;
+
+            const style = getComputedStyle(container);
+            const width = container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+            const height = container.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+            const scale = Math.min(1, width / element.offsetWidth, height / element.offsetHeight);
+            element.style.transform = scale < 1 ? `scale(${scale})` : '';
+        };
+
         const handleResize = () => {
-            fitAddon.fit();
-            socket.emit('session:resize', { cols: terminal.cols, rows: terminal.rows });
+            reportSize();
+            updateScale();
         };
 
         window.addEventListener('resize', handleResize);
@@ -76,34 +136,80 @@ export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
             });
         }
 
+        // Last output rendered, so a reconnect only replays what was missed
+        let position: StreamPosition | null = null;
+
         // Socket event handlers
-        const handleOutput = (data: string) => {
+        const handleOutput = (chunk: OutputChunk) => {
+            let data = chunk.data;
+            if (position && position.streamId === chunk.streamId) {
+                // Skip anything already rendered
+                if (chunk.offset + data.length <= position.offset) return;
+                data = data.slice(Math.max(0, position.offset - chunk.offset));
+            }
             terminal.write(data);
+            position = { streamId: chunk.streamId, offset: chunk.offset + chunk.data.length };
+        };
+
+        // Full screen state from the server; replaces whatever is rendered
+        const handleSnapshot = (snapshot: OutputChunk) => {
+            terminal.reset();
+            terminal.write(snapshot.data);
+            position = { streamId: snapshot.streamId, offset: snapshot.offset };
+        };
+
+        const handleSize = (size: SizeState) => {
+            if (size.cols !== terminal.cols || size.rows !== terminal.rows) {
+                terminal.resize(size.cols, size.rows);
+            }
+            updateScale();
         };
 
-        const handleJoined = (info: { sessionId: string; role: string }) => {
+        const handleJoined = (info: { sessionId: string; role: string; running: boolean }) => {
             setIsConnected(true);
             setConnectionStatus('connected');
             terminal.write(`\r\n\x1b[32m✓ Connected as ${info.role}\x1b[0m\r\n\r\n`);
+            if (!info.running) {
+                terminal.write('\x1b[33m⚠ Session is not running\x1b[0m\r\n');
+            }
+            reportSize();
+        };
+
+        // A new process replaces whatever was shown
+        const handleStarted = () => {
+            terminal.reset();
+            position = null;
+            setConnectionStatus('connected');
+            reportSize();
         };
 
         const handleError = (error: { message: string }) => {
             terminal.write(`\r\n\x1b[31m✗ Error: ${error.message}\x1b[0m\r\n`);
         };
 
-        const handleExit = (info: { exitCode: number }) => {
-            terminal.write(`\r\n\x1b[33m⚠ Session ended (exit code: ${info.exitCode})\x1b[0m\r\n`);
+        // The server is about to stop the session (idle or too long running)
+        const handleWarning = (warning: { message: string }) => {
+            terminal.write(`\r\n\x1b[33m⚠ ${warning.message}\x1b[0m\r\n`);
+        };
+
+        const handleExit = (info: { exitCode: number; signal: string | null; reason?: string }) => {
+            const detail = info.reason ?? `exit code: ${info.exitCode}${info.signal ? `, ${info.signal}` : ''}`;
+            terminal.write(`\r\n\x1b[33m⚠ Session ended (${detail})\x1b[0m\r\n`);
             setConnectionStatus('disconnected');
         };
 
         socket.on('session:output', handleOutput);
+        socket.on('session:snapshot', handleSnapshot);
+        socket.on('session:size', handleSize);
         socket.on('session:joined', handleJoined);
         socket.on('error', handleError);
         socket.on('session:exit', handleExit);
+        socket.on('session:started', handleStarted);
+        socket.on('session:warning', handleWarning);
         socket.on('disconnect', () => setConnectionStatus('disconnected'));
         socket.on('connect', () => {
             if (sessionId) {
-                socket.emit('session:join', sessionId);
+                socket.emit('session:join', position ? { sessionId, resume: position } : sessionId);
             }
         });
 
@@ -112,29 +218,29 @@ export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
             socket.emit('session:join', sessionId);
         }
 
+        // Report again once the container has its final size
+        const layoutTimer = setTimeout(handleResize, 100);
+
         return () => {
+            clearTimeout(layoutTimer);
             window.removeEventListener('resize', handleResize);
             socket.off('session:output', handleOutput);
+            socket.off('session:snapshot', handleSnapshot);
+            socket.off('session:size', handleSize);
             socket.off('session:joined', handleJoined);
             socket.off('error', handleError);
             socket.off('session:exit', handleExit);
+            socket.off('session:started', handleStarted);
+            socket.off('session:warning', handleWarning);
             socket.emit('session:leave');
             terminal.dispose();
         };
-    }, [socket, sessionId, canWrite]);
-
-    // Re-fit on mount with delay (for container sizing)
-    useEffect(() => {
-        const timer = setTimeout(() => {
-            fitAddonRef.current?.fit();
-        }, 100);
-        return () => clearTimeout(timer);
-    }, []);
+    }, [socket, sessionId, canWrite, mode]);
 
     return (
         <div style={{ position: 'relative', height: '100%' }}>
             {/* Status indicator */}
-            <div style={{
+            {mode === 'live' && <div style={{
                 position: 'absolute',
                 top: '0.5rem',
                 right: '0.5rem',
@@ -162,7 +268,7 @@ export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
                 {!canWrite && connectionStatus === 'connected' && (
                     <span style={{ color: '#6b6b80', marginLeft: '0.5rem' }}>(Read-only)</span>
                 )}
-            </div>
+            </div>}
 
             {/* Terminal container */}
             <div
@@ -172,6 +278,12 @@ export function Terminal({ socket, sessionId, canWrite }: TerminalProps) {
                     padding: '1rem',
                     background: '#0a0a12',
                     borderRadius: '0.75rem',
+                    ...(mode === 'live' && {
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        overflow: 'hidden',
+                    }),
                 }}
             />
         </div>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+
+type SizePolicy = 'DRIVER' | 'SMALLEST' | 'FIXED';
+
+interface SizeState {
+    cols: number;
+    rows: number;
+    policy: SizePolicy;
+    fixedCols: number | null;
+    fixedRows: number | null;
+}
+
+interface TerminalSizeControlProps {
+    socket: Socket | null;
+    isOwner: boolean;
+}
+
+const POLICY_LABELS: Record<SizePolicy, string> = {
+    DRIVER: "Driver's window",
+    SMALLEST: 'Smallest window',
+    FIXED: 'Fixed size',
+};
+
+export function TerminalSizeControl({ socket, isOwner }: TerminalSizeControlProps) {
+    const [size, setSize] = useState<SizeState | null>(null);
+    const [policy, setPolicy] = useState<SizePolicy>('DRIVER');
+    const [cols, setCols] = useState('');
+    const [rows, setRows] = useState('');
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const handleSize = (data: SizeState) => {
+            setSize(data);
+            setPolicy(data.policy);
+            setCols(String(data.fixedCols ?? data.cols));
+            setRows(String(data.fixedRows ?? data.rows));
+        };
+
+        socket.on('session:size', handleSize);
+        return () => {
+            socket.off('session:size', handleSize);
+        };
+    }, [socket]);
+
+    if (!socket || !size) return null;
+
+    const handlePolicyChange = (value: SizePolicy) => {
+        setPolicy(value);
+        if (value !== 'FIXED') {
+            socket.emit('session:size:policy', { policy: value });
+        }
+    };
+
+    const handleApplyFixed = (e: React.FormEvent) => {
+        e.preventDefault();
+        socket.emit('session:size:policy', { policy: 'FIXED', cols: Number(cols), rows: Number(rows) });
+    };
+
+    return (
+        <div className="terminal-size text-sm">
+            <span className="font-mono" title={POLICY_LABELS[size.policy]}>
+                {size.cols}×{size.rows}
+            </span>
+            {isOwner && (
+                <>
+                    <select value={policy} onChange={(e) => handlePolicyChange(e.target.value as SizePolicy)}>
+                        {Object.entries(POLICY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    {policy === 'FIXED' && (
+                        <form className="terminal-size-fixed" onSubmit={handleApplyFixed}>
+                            <input
+                                type="number"
+                                min={20}
+                                max={500}
+                                value={cols}
+                                onChange={(e) => setCols(e.target.value)}
+                                aria-label="Columns"
+                            />
+                            ×
+                            <input
+                                type="number"
+                                min={5}
+                                max={200}
+                                value={rows}
+                                onChange={(e) => setRows(e.target.value)}
+                                aria-label="Rows"
+                            />
+                            <button type="submit" className="btn btn-secondary">Apply</button>
+                        </form>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import { sessionsApi } from '../services/api';
+import { sessionsApi, profilesApi, createSocket } from '../services/api';
+import type { SessionMode } from '../services/api';
 import './DashboardPage.css';
 
 interface Session {
@@ -14,15 +15,30 @@ interface Session {
     _count: { members: number };
 }
 
+interface LaunchProfile {
+    id: string;
+    name: string;
+    description?: string;
+}
+
 export function DashboardPage() {
     const { user, token, logout } = useAuth();
     const navigate = useNavigate();
+    const [searchQuery, setSearchQuery] = useState('');
     const [sessions, setSessions] = useState<Session[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [newSessionName, setNewSessionName] = useState('');
     const [newSessionDesc, setNewSessionDesc] = useState('');
     const [isCreating, setIsCreating] = useState(false);
+    const [createError, setCreateError] = useState('');
+    const [profiles, setProfiles] = useState<LaunchProfile[]>([]);
+    const [newSessionProfile, setNewSessionProfile] = useState('');
+    const [newSessionMode, setNewSessionMode] = useState<SessionMode>('TERMINAL');
+    const [newSessionRepo, setNewSessionRepo] = useState('');
+    const [newSessionBranch, setNewSessionBranch] = useState('');
+    // Connected users per session, kept live over the socket
+    const [onlineCounts, setOnlineCounts] = useState<Record<string, number>>({});
 
     useEffect(() => {
         if (token) {
@@ -30,6 +46,21 @@ export function DashboardPage() {
         }
     }, [token]);
 
+    useEffect(() => {
+        if (!token || sessions.length === 0) return;
+
+        const ws = createSocket(token);
+        const sessionIds = sessions.map((session) => session.id);
+        ws.on('connect', () => ws.emit('presence:subscribe', sessionIds));
+        ws.on('presence:count', ({ sessionId, count }: { sessionId: string; count: number }) => {
+            setOnlineCounts((counts) => ({ ...counts, [sessionId]: count }));
+        });
+
+        return () => {
+            ws.disconnect();
+        };
+    }, [token, sessions]);
+
     const loadSessions = async () => {
         try {
             const data = await sessionsApi.list(token!);
@@ -41,21 +72,42 @@ export function DashboardPage() {
         }
     };
 
+    const openCreateModal = async () => {
+        setShowCreateModal(true);
+        setCreateError('');
+        try {
+            const data = await profilesApi.list(token!);
+            setProfiles(data);
+        } catch (error) {
+            console.error('Failed to load profiles:', error);
+        }
+    };
+
     const handleCreateSession = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!newSessionName.trim()) return;
 
         setIsCreating(true);
+        setCreateError('');
         try {
-            const session = await sessionsApi.create(token!, newSessionName, newSessionDesc);
+            const session = await sessionsApi.create(token!, newSessionName, newSessionDesc, {
+                profileId: newSessionProfile || undefined,
+                mode: newSessionMode,
+                workspace: newSessionRepo.trim()
+                    ? { repoPath: newSessionRepo.trim(), branch: newSessionBranch.trim() }
+                    : undefined,
+            });
             navigate(`/session/${session.id}`);
         } catch (error) {
             console.error('Failed to create session:', error);
+            setCreateError(error instanceof Error ? error.message : 'Failed to create session');
         } finally {
             setIsCreating(false);
         }
     };
 
+    const selectedProfile = profiles.find((profile) => profile.id === newSessionProfile);
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'ACTIVE': return 'badge-success';
@@ -75,6 +127,21 @@ export function DashboardPage() {
                         <span className="logo-text">PubTerm</span>
                     </div>
                 </div>
+                <form
+                    className="header-search"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (searchQuery.trim()) navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
+                    }}
+                >
+                    <input
+                        type="search"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search session output…"
+                        aria-label="Search session output"
+                    />
+                </form>
                 <div className="header-right">
                     <div className="user-info">
                         <span className="user-name">{user?.name}</span>
@@ -92,7 +159,7 @@ export function DashboardPage() {
                     <h1>Your Sessions</h1>
                     <button
                         className="btn btn-primary"
-                        onClick={() => setShowCreateModal(true)}
+                        onClick={openCreateModal}
                     >
                         <span>+</span> New Session
                     </button>
@@ -112,7 +179,7 @@ export function DashboardPage() {
                         </p>
                         <button
                             className="btn btn-primary"
-                            onClick={() => setShowCreateModal(true)}
+                            onClick={openCreateModal}
                         >
                             Create Session
                         </button>
@@ -143,6 +210,11 @@ export function DashboardPage() {
                                     <span className="meta-item">
                                         👥 {session._count.members} member{session._count.members !== 1 ? 's' : ''}
                                     </span>
+                                    {onlineCounts[session.id] > 0 && (
+                                        <span className="meta-item meta-online">
+                                            ● {onlineCounts[session.id]} online
+                                        </span>
+                                    )}
                                     <span className="meta-item">
                                         🕐 {new Date(session.createdAt).toLocaleDateString()}
                                     </span>
@@ -181,6 +253,66 @@ export function DashboardPage() {
                                     rows={3}
                                 />
                             </div>
+                            <div className="form-group">
+                                <label htmlFor="session-profile">Launch Profile</label>
+                                <select
+                                    id="session-profile"
+                                    value={newSessionProfile}
+                                    onChange={(e) => setNewSessionProfile(e.target.value)}
+                                >
+                                    <option value="">Default (Claude CLI)</option>
+                                    {profiles.map((profile) => (
+                                        <option key={profile.id} value={profile.id}>
+                                            {profile.name}
+                                        </option>
+                                    ))}
+                                </select>
+                                {selectedProfile?.description && (
+                                    <p className="form-hint text-muted text-sm">
+                                        {selectedProfile.description}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="session-mode">Mode</label>
+                                <select
+                                    id="session-mode"
+                                    value={newSessionMode}
+                                    onChange={(e) => setNewSessionMode(e.target.value as SessionMode)}
+                                >
+                                    <option value="TERMINAL">Terminal</option>
+                                    <option value="HEADLESS">Headless chat</option>
+                                </select>
+                                {newSessionMode === 'HEADLESS' && (
+                                    <p className="form-hint text-muted text-sm">
+                                        Claude runs without a terminal and the session shows a structured conversation.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="session-repo">Git Workspace (optional)</label>
+                                <div className="form-row">
+                                    <input
+                                        id="session-repo"
+                                        type="text"
+                                        value={newSessionRepo}
+                                        onChange={(e) => setNewSessionRepo(e.target.value)}
+                                        placeholder="/path/to/repository"
+                                    />
+                                    <input
+                                        id="session-branch"
+                                        type="text"
+                                        value={newSessionBranch}
+                                        onChange={(e) => setNewSessionBranch(e.target.value)}
+                                        placeholder="Branch"
+                                        required={!!newSessionRepo.trim()}
+                                    />
+                                </div>
+                                <p className="form-hint text-muted text-sm">
+                                    The session runs in its own worktree of this repository.
+                                </p>
+                            </div>
+                            {createError && <div className="error-message">{createError}</div>}
                             <div className="modal-actions">
                                 <button
                                     type="button"
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { sessionsApi, invitesApi } from '../services/api';
+import './JoinPage.css';
+
+interface InvitePreview {
+    sessionId: string;
+    sessionName: string;
+    sessionDescription: string | null;
+    role: 'VIEWER' | 'OPERATOR';
+    inviterName: string | null;
+    expiresAt: string;
+    status: 'active' | 'expired' | 'revoked' | 'used';
+    emailRestricted: boolean;
+}
+
+const STATUS_MESSAGES: Record<Exclude<InvitePreview['status'], 'active'>, string> = {
+    expired: 'This invite has expired.',
+    revoked: 'This invite has been revoked.',
+    used: 'This invite has already been used.',
+};
+
+export function JoinPage() {
+    const { token: inviteToken } = useParams<{ token: string }>();
+    const { user, token, isLoading: isAuthLoading } = useAuth();
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    const [preview, setPreview] = useState<InvitePreview | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isJoining, setIsJoining] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!inviteToken) return;
+
+        invitesApi.preview(inviteToken)
+            .then(setPreview)
+            .catch((err) => setError(err.message))
+            .finally(() => setIsLoading(false));
+    }, [inviteToken]);
+
+    const handleJoin = async () => {
+        if (!token || !inviteToken) return;
+
+        setIsJoining(true);
+        setError('');
+        try {
+            const data = await sessionsApi.joinWithInvite(token, inviteToken);
+            navigate(`/session/${data.sessionId}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to join session');
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    if (isLoading || isAuthLoading) {
+        return (
+            <div className="join-page">
+                <div className="loading-spinner large" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="join-page">
+            <div className="join-card animate-slide-up">
+                {!preview ? (
+                    <>
+                        <h2>Invite Not Found</h2>
+                        <p className="text-secondary">{error || 'This invite link is not valid.'}</p>
+                        <Link to="/dashboard" className="btn btn-primary w-full">
+                            Go to Dashboard
+                        </Link>
+                    </>
+                ) : (
+                    <>
+                        <p className="join-kicker text-muted text-sm">
+                            {preview.inviterName ? `${preview.inviterName} invited you to` : 'You are invited to'}
+                        </p>
+                        <h2>{preview.sessionName}</h2>
+                        {preview.sessionDescription && (
+                            <p className="text-secondary">{preview.sessionDescription}</p>
+                        )}
+
+                        <dl className="join-details">
+                            <dt>Role</dt>
+                            <dd>
+                                <span className={`badge badge-${preview.role.toLowerCase()}`}>{preview.role}</span>
+                                {' '}
+                                {preview.role === 'OPERATOR' ? 'Can type in the terminal' : 'Can watch the terminal'}
+                            </dd>
+                            <dt>Expires</dt>
+                            <dd>{new Date(preview.expiresAt).toLocaleString()}</dd>
+                            {preview.emailRestricted && (
+                                <>
+                                    <dt>For</dt>
+                                    <dd>A specific email address only</dd>
+                                </>
+                            )}
+                        </dl>
+
+                        {error && <div className="error-message">{error}</div>}
+
+                        {preview.status !== 'active' ? (
+                            <p className="text-secondary">{STATUS_MESSAGES[preview.status]}</p>
+                        ) : user ? (
+                            <button className="btn btn-primary w-full" onClick={handleJoin} disabled={isJoining}>
+                                {isJoining ? <span className="loading-spinner" /> : `Join as ${user.name}`}
+                            </button>
+                        ) : (
+                            <button
+                                className="btn btn-primary w-full"
+                                onClick={() => navigate('/login', { state: { from: location.pathname } })}
+                            >
+                                Sign in or create an account to join
+                            </button>
+                        )}
+
+                        {user && (
+                            <Link to={`/session/${preview.sessionId}`} className="join-open-link text-sm">
+                                Already a member? Open the session
+                            </Link>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
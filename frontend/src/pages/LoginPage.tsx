@@ -1,5 +1,5 @@
 import { useState, FormEvent } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import './LoginPage.css';
 
@@ -13,6 +13,7 @@ export function LoginPage() {
 
     const { login, register } = useAuth();
     const navigate = useNavigate();
+    const location = useLocation();
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
@@ -25,7 +26,7 @@ export function LoginPage() {
             } else {
                 await register(email, password, name);
             }
-            navigate('/dashboard');
+            navigate((location.state as { from?: string } | null)?.from ?? '/dashboard');
         } catch (err) {
             setError(err instanceof Error ? err.message : 'An error occurred');
         } finally {
@@ -0,0 +1,222 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import type { Terminal as XTerm } from '@xterm/xterm';
+import { useAuth } from '../hooks/useAuth';
+import { recordingsApi } from '../services/api';
+import { Terminal } from '../components/Terminal';
+import './RecordingPage.css';
+
+interface CastHeader {
+    width: number;
+    height: number;
+    timestamp?: number;
+}
+
+type CastEvent = [number, 'o' | 'i' | 'r', string];
+
+interface Cast {
+    header: CastHeader;
+    events: CastEvent[];
+    duration: number;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+function parseCast(text: string): Cast {
+    const [headerLine, ...lines] = text.split('\n').filter(Boolean);
+    const header = JSON.parse(headerLine) as CastHeader;
+    // Input events are recorded but not replayed; the PTY echo is already in the output
+    const events = lines
+        .map((line) => JSON.parse(line) as CastEvent)
+        .filter(([, type]) => type === 'o' || type === 'r');
+    const duration = events.length > 0 ? events[events.length - 1][0] : 0;
+    return { header, events, duration };
+}
+
+function formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function RecordingPage() {
+    const { id, recordingId } = useParams<{ id: string; recordingId: string }>();
+    const { token } = useAuth();
+    const [searchParams] = useSearchParams();
+    // Search results link straight to the moment a line was printed
+    const startTime = Number(searchParams.get('t')) || 0;
+
+    const [cast, setCast] = useState<Cast | null>(null);
+    const [error, setError] = useState('');
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const [position, setPosition] = useState(startTime);
+
+    const terminalRef = useRef<XTerm | null>(null);
+    const eventIndexRef = useRef(0);
+    const positionRef = useRef(0);
+    const frameRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        if (!id || !recordingId || !token) return;
+
+        recordingsApi.download(token, id, recordingId)
+            .then((text) => setCast(parseCast(text)))
+            .catch((err) => setError(err.message));
+    }, [id, recordingId, token]);
+
+    // Apply events up to the given time to the terminal
+    const renderUntil = useCallback((time: number) => {
+        const terminal = terminalRef.current;
+        if (!terminal || !cast) return;
+
+        let output = '';
+        while (eventIndexRef.current < cast.events.length && cast.events[eventIndexRef.current][0] <= time) {
+            const [, type, data] = cast.events[eventIndexRef.current];
+            if (type === 'o') {
+                output += data;
+            } else {
+                if (output) {
+                    terminal.write(output);
+                    output = '';
+                }
+                const [cols, rows] = data.split('x').map(Number);
+                terminal.resize(cols, rows);
+            }
+            eventIndexRef.current++;
+        }
+        if (output) terminal.write(output);
+    }, [cast]);
+
+    const seek = useCallback((time: number) => {
+        const terminal = terminalRef.current;
+        if (!terminal || !cast) return;
+
+        terminal.reset();
+        terminal.resize(cast.header.width, cast.header.height);
+        eventIndexRef.current = 0;
+        positionRef.current = time;
+        setPosition(time);
+        renderUntil(time);
+    }, [cast, renderUntil]);
+
+    const handleReady = useCallback((terminal: XTerm) => {
+        terminalRef.current = terminal;
+    }, []);
+
+    // Reset to the start time once both the terminal and the recording are ready
+    useEffect(() => {
+        if (!cast || !terminalRef.current) return;
+        terminalRef.current.reset();
+        terminalRef.current.resize(cast.header.width, cast.header.height);
+        eventIndexRef.current = 0;
+        positionRef.current = Math.min(startTime, cast.duration);
+        renderUntil(positionRef.current);
+    }, [cast, renderUntil, startTime]);
+
+    // Playback loop
+    useEffect(() => {
+        if (!isPlaying || !cast) return;
+
+        let last = performance.now();
+        const tick = (now: number) => {
+            const next = Math.min(positionRef.current + ((now - last) / 1000) * speed, cast.duration);
+            last = now;
+            positionRef.current = next;
+            renderUntil(next);
+            setPosition(next);
+
+            if (next >= cast.duration) {
+                setIsPlaying(false);
+                return;
+            }
+            frameRef.current = requestAnimationFrame(tick);
+        };
+        frameRef.current = requestAnimationFrame(tick);
+
+        return () => {
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        };
+    }, [isPlaying, speed, cast, renderUntil]);
+
+    const handleTogglePlay = () => {
+        if (!cast) return;
+        if (!isPlaying && positionRef.current >= cast.duration) {
+            seek(0);
+        }
+        setIsPlaying(!isPlaying);
+    };
+
+    if (error) {
+        return (
+            <div className="recording-page error">
+                <h2>Recording Not Found</h2>
+                <p className="text-secondary">{error}</p>
+                <Link to={`/session/${id}`} className="btn btn-primary">
+                    Back to Session
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="recording-page">
+            {/* Header */}
+            <header className="recording-header">
+                <Link to={`/session/${id}`} className="back-link">
+                    ← Back
+                </Link>
+                <div className="recording-info">
+                    <h1>Recording</h1>
+                    <span className="text-muted font-mono">{recordingId}</span>
+                </div>
+            </header>
+
+            {/* Player */}
+            <main className="recording-player">
+                <Terminal
+                    socket={null}
+                    sessionId={id!}
+                    canWrite={false}
+                    mode="playback"
+                    onReady={handleReady}
+                />
+            </main>
+
+            {/* Controls */}
+            <footer className="recording-controls">
+                <button
+                    className="btn btn-primary"
+                    onClick={handleTogglePlay}
+                    disabled={!cast}
+                >
+                    {isPlaying ? 'Pause' : 'Play'}
+                </button>
+                <span className="recording-time font-mono">
+                    {formatTime(position)} / {formatTime(cast?.duration ?? 0)}
+                </span>
+                <input
+                    type="range"
+                    className="recording-seek"
+                    min={0}
+                    max={cast?.duration ?? 0}
+                    step={0.1}
+                    value={position}
+                    onChange={(e) => seek(Number(e.target.value))}
+                    disabled={!cast}
+                />
+                <div className="speed-selector">
+                    {SPEEDS.map((value) => (
+                        <button
+                            key={value}
+                            className={`speed-option ${speed === value ? 'active' : ''}`}
+                            onClick={() => setSpeed(value)}
+                        >
+                            {value}x
+                        </button>
+                    ))}
+                </div>
+            </footer>
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { searchApi } from '../services/api';
+import './SearchPage.css';
+
+interface SearchHit {
+    sessionId: string;
+    sessionName: string;
+    source: 'terminal' | 'chat';
+    text: string;
+    before: string[];
+    after: string[];
+    createdAt: string;
+    line?: number;
+    recording?: { id: string; time: number };
+    seq?: number;
+}
+
+export function SearchPage() {
+    const { token } = useAuth();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const query = searchParams.get('q') ?? '';
+
+    const [input, setInput] = useState(query);
+    // Results are tagged with their query so a stale response reads as still loading
+    const [results, setResults] = useState<{ query: string; hits: SearchHit[]; error: string } | null>(null);
+
+    useEffect(() => {
+        if (!token || query.trim().length < 2) return;
+
+        searchApi.search(token, query)
+            .then((hits: SearchHit[]) => setResults({ query, hits, error: '' }))
+            .catch((err) => setResults({ query, hits: [], error: err.message }));
+    }, [token, query]);
+
+    const isLoading = query.trim().length >= 2 && results?.query !== query;
+    const hits = results?.query === query ? results.hits : [];
+    const error = results?.query === query ? results.error : '';
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSearchParams({ q: input.trim() });
+    };
+
+    return (
+        <div className="search-page">
+            <header className="search-header">
+                <Link to="/dashboard" className="back-link">
+                    ← Back
+                </Link>
+                <form className="search-form" onSubmit={handleSubmit}>
+                    <input
+                        type="search"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Error message, file path, command…"
+                        minLength={2}
+                        autoFocus
+                    />
+                    <button type="submit" className="btn btn-primary">
+                        Search
+                    </button>
+                </form>
+            </header>
+
+            <main className="search-results">
+                {error && <div className="error-message">{error}</div>}
+
+                {isLoading ? (
+                    <div className="loading-spinner large" />
+                ) : query && hits.length === 0 && !error ? (
+                    <p className="text-secondary">No matches for “{query}”.</p>
+                ) : (
+                    <ul className="search-hits">
+                        {hits.map((hit) => (
+                            <li key={`${hit.source}-${hit.sessionId}-${hit.line ?? hit.seq}`} className="search-hit card">
+                                <div className="search-hit-meta text-sm">
+                                    <Link to={`/session/${hit.sessionId}`}>{hit.sessionName}</Link>
+                                    <span className="text-muted">
+                                        {hit.source === 'chat' ? 'Chat' : `Line ${hit.line}`}
+                                        {' · '}
+                                        {new Date(hit.createdAt).toLocaleString()}
+                                    </span>
+                                    {hit.recording && (
+                                        <Link
+                                            to={`/session/${hit.sessionId}/recordings/${hit.recording.id}?t=${hit.recording.time}`}
+                                            className="search-hit-replay"
+                                        >
+                                            ▶ Replay from here
+                                        </Link>
+                                    )}
+                                </div>
+                                <pre className="search-hit-text font-mono">
+                                    {hit.before.map((line, index) => (
+                                        <span key={`before-${index}`} className="search-hit-context">{line}{'\n'}</span>
+                                    ))}
+                                    <mark>{hit.text}</mark>
+                                    {hit.after.map((line, index) => (
+                                        <span key={`after-${index}`} className="search-hit-context">{'\n'}{line}</span>
+                                    ))}
+                                </pre>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </main>
+        </div>
+    );
+}
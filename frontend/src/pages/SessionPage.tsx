@@ -2,8 +2,24 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Socket } from 'socket.io-client';
 import { useAuth } from '../hooks/useAuth';
-import { sessionsApi, createSocket } from '../services/api';
+import { sessionsApi, recordingsApi, createSocket } from '../services/api';
+import type { SessionMode, WorkspaceCleanup } from '../services/api';
 import { Terminal } from '../components/Terminal';
+import { ChatView } from '../components/ChatView';
+import { ContextFilesPanel } from '../components/ContextFilesPanel';
+import { FileBrowser } from '../components/FileBrowser';
+import { DiffView } from '../components/DiffView';
+import { PromptBar } from '../components/PromptBar';
+import { InputControlBar } from '../components/InputControlBar';
+import { TerminalSizeControl } from '../components/TerminalSizeControl';
+import { PauseControl } from '../components/PauseControl';
+import { LifecycleControl } from '../components/LifecycleControl';
+import { PresenceList } from '../components/PresenceList';
+import { MembersPanel } from '../components/MembersPanel';
+import { InviteModal } from '../components/InviteModal';
+import { ShareLinksModal } from '../components/ShareLinksModal';
+import { NotificationSettings } from '../components/NotificationSettings';
+import { ExportControl } from '../components/ExportControl';
 import './SessionPage.css';
 
 interface SessionData {
@@ -11,8 +27,22 @@ interface SessionData {
     name: string;
     description?: string;
     status: string;
+    mode: SessionMode;
     owner: { id: string; name: string; email: string };
-    members: Array<{ id: string; role: string; user: { id: string; name: string } }>;
+}
+
+interface WorkspaceStatus {
+    branch: string;
+    dirty: boolean;
+    changedFiles: number;
+    exists: boolean;
+}
+
+interface Recording {
+    id: string;
+    size: number;
+    createdAt: string;
+    updatedAt: string;
 }
 
 export function SessionPage() {
@@ -22,12 +52,20 @@ export function SessionPage() {
 
     const [session, setSession] = useState<SessionData | null>(null);
     const [userRole, setUserRole] = useState<string | null>(null);
+    const [workspace, setWorkspace] = useState<WorkspaceStatus | null>(null);
     const [socket, setSocket] = useState<Socket | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState('');
     const [showInviteModal, setShowInviteModal] = useState(false);
-    const [inviteLink, setInviteLink] = useState('');
-    const [inviteRole, setInviteRole] = useState<'VIEWER' | 'OPERATOR'>('VIEWER');
+    const [showShareModal, setShowShareModal] = useState(false);
+    const [showRecordingsModal, setShowRecordingsModal] = useState(false);
+    const [recordings, setRecordings] = useState<Recording[]>([]);
+    const [showDeleteModal, setShowDeleteModal] = useState(false);
+    const [workspaceCleanup, setWorkspaceCleanup] = useState<WorkspaceCleanup>('keep');
+    const [deleteError, setDeleteError] = useState('');
+    const [showFiles, setShowFiles] = useState(false);
+    const [activeTab, setActiveTab] = useState<'terminal' | 'changes'>('terminal');
+    const [showNotificationsModal, setShowNotificationsModal] = useState(false);
 
     useEffect(() => {
         if (!id || !token) return;
@@ -37,6 +75,7 @@ export function SessionPage() {
             .then((data) => {
                 setSession(data.session);
                 setUserRole(data.userRole);
+                setWorkspace(data.workspace);
             })
             .catch((err) => {
                 setError(err.message);
@@ -47,36 +86,53 @@ export function SessionPage() {
         const ws = createSocket(token);
         setSocket(ws);
 
+        // The owner changed this user's role or removed them
+        ws.on('session:role', ({ role }: { role: string }) => setUserRole(role));
+        ws.on('session:removed', () => setError('You were removed from this session'));
+        ws.on('session:pause', ({ paused }: { paused: boolean }) => {
+            setSession((current) => current && { ...current, status: paused ? 'PAUSED' : 'ACTIVE' });
+        });
+        ws.on('session:started', () => {
+            setSession((current) => current && { ...current, status: 'ACTIVE' });
+        });
+        ws.on('session:exit', () => {
+            setSession((current) => current && { ...current, status: 'TERMINATED' });
+        });
+
         return () => {
             ws.disconnect();
         };
     }, [id, token]);
 
-    const handleCreateInvite = async () => {
+    const handleShowRecordings = async () => {
         if (!id || !token) return;
 
+        setShowRecordingsModal(true);
         try {
-            const data = await sessionsApi.createInvite(token, id, inviteRole);
-            const link = `${window.location.origin}/join/${data.token}`;
-            setInviteLink(link);
+            const data = await recordingsApi.list(token, id);
+            setRecordings(data);
         } catch (err) {
-            console.error('Failed to create invite:', err);
+            console.error('Failed to load recordings:', err);
         }
     };
 
-    const handleCopyInvite = () => {
-        navigator.clipboard.writeText(inviteLink);
-    };
-
     const handleDeleteSession = async () => {
         if (!id || !token) return;
-        if (!confirm('Are you sure you want to delete this session?')) return;
+
+        // Sessions with a worktree ask what to do with it
+        if (workspace && !showDeleteModal) {
+            setDeleteError('');
+            setShowDeleteModal(true);
+            return;
+        }
+        if (!workspace && !confirm('Are you sure you want to delete this session?')) return;
 
         try {
-            await sessionsApi.delete(token, id);
+            await sessionsApi.delete(token, id, workspaceCleanup);
             navigate('/dashboard');
         } catch (err) {
             console.error('Failed to delete session:', err);
+            setDeleteError(err instanceof Error ? err.message : 'Failed to delete session');
         }
     };
 
@@ -105,7 +161,7 @@ export function SessionPage() {
     }
 
     return (
-        <div className="session-page">
+        <div className={`session-page ${showFiles ? 'with-files' : ''}`}>
             {/* Header */}
             <header className="session-header">
                 <div className="header-left">
@@ -121,10 +177,41 @@ export function SessionPage() {
                             <span className="role-badge">
                                 You: {userRole}
                             </span>
+                            {workspace && (
+                                <span className="workspace-badge font-mono" title="Git worktree">
+                                    ⎇ {workspace.exists ? workspace.branch : 'missing'}
+                                    {workspace.dirty && (
+                                        <span className="workspace-dirty">
+                                            {' '}● {workspace.changedFiles} changed
+                                        </span>
+                                    )}
+                                </span>
+                            )}
                         </div>
                     </div>
                 </div>
                 <div className="header-right">
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => setShowFiles(!showFiles)}
+                    >
+                        Files
+                    </button>
+                    {userRole && (
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => setShowNotificationsModal(true)}
+                        >
+                            Notify
+                        </button>
+                    )}
+                    <button
+                        className="btn btn-secondary"
+                        onClick={handleShowRecordings}
+                    >
+                        Recordings
+                    </button>
+                    <ExportControl token={token!} sessionId={session.id} sessionName={session.name} />
                     {isOwner && (
                         <>
                             <button
@@ -133,6 +220,12 @@ export function SessionPage() {
                             >
                                 Invite
                             </button>
+                            <button
+                                className="btn btn-secondary"
+                                onClick={() => setShowShareModal(true)}
+                            >
+                                Share
+                            </button>
                             <button
                                 className="btn btn-danger"
                                 onClick={handleDeleteSession}
@@ -144,85 +237,159 @@ export function SessionPage() {
                 </div>
             </header>
 
-            {/* Terminal */}
+            {/* Working-directory file tree */}
+            {showFiles && (
+                <FileBrowser token={token!} sessionId={session.id} onCollapse={() => setShowFiles(false)} />
+            )}
+
+            {/* Terminal / Changes tabs */}
             <main className="terminal-container">
-                <Terminal
-                    socket={socket}
-                    sessionId={id!}
-                    canWrite={canWrite}
-                />
+                <div className="session-tabs">
+                    <button
+                        className={`session-tab ${activeTab === 'terminal' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('terminal')}
+                    >
+                        {session.mode === 'HEADLESS' ? 'Chat' : 'Terminal'}
+                    </button>
+                    <button
+                        className={`session-tab ${activeTab === 'changes' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('changes')}
+                    >
+                        Changes
+                    </button>
+                    {session.mode !== 'HEADLESS' && (
+                        <>
+                            <InputControlBar socket={socket} canWrite={canWrite} isOwner={isOwner} />
+                            <TerminalSizeControl socket={socket} isOwner={isOwner} />
+                            <PauseControl socket={socket} canWrite={canWrite} />
+                            {canWrite && (
+                                <LifecycleControl
+                                    token={token!}
+                                    sessionId={session.id}
+                                    running={session.status !== 'TERMINATED'}
+                                />
+                            )}
+                        </>
+                    )}
+                </div>
+                <div className="session-tab-content">
+                    {/* The terminal or chat stays mounted so it keeps its place in the stream */}
+                    {session.mode === 'HEADLESS' ? (
+                        <ChatView socket={socket} sessionId={session.id} canWrite={canWrite} />
+                    ) : (
+                        <Terminal
+                            socket={socket}
+                            sessionId={id!}
+                            canWrite={canWrite}
+                        />
+                    )}
+                    {activeTab === 'changes' && (
+                        <DiffView socket={socket} token={token!} sessionId={session.id} />
+                    )}
+                    {session.mode !== 'HEADLESS' && <PromptBar socket={socket} canWrite={canWrite} />}
+                </div>
             </main>
 
             {/* Members sidebar (mobile-hidden) */}
             <aside className="session-sidebar">
-                <h3>Members</h3>
-                <ul className="members-list">
-                    {session.members.map((member) => (
-                        <li key={member.id} className="member-item">
-                            <span className="member-name">{member.user.name}</span>
-                            <span className={`member-role badge badge-${member.role.toLowerCase()}`}>
-                                {member.role}
-                            </span>
-                        </li>
-                    ))}
-                </ul>
+                <PresenceList socket={socket} />
+
+                <MembersPanel socket={socket} token={token!} sessionId={session.id} isOwner={isOwner} />
+
+                <ContextFilesPanel token={token!} sessionId={session.id} canWrite={canWrite} />
             </aside>
 
-            {/* Invite Modal */}
-            {showInviteModal && (
-                <div className="modal-overlay" onClick={() => setShowInviteModal(false)}>
+            {/* Notifications Modal */}
+            {showNotificationsModal && (
+                <NotificationSettings
+                    token={token!}
+                    sessionId={session.id}
+                    onClose={() => setShowNotificationsModal(false)}
+                />
+            )}
+
+            {/* Delete Modal (sessions with a workspace) */}
+            {showDeleteModal && (
+                <div className="modal-overlay" onClick={() => setShowDeleteModal(false)}>
                     <div className="modal animate-slide-up" onClick={(e) => e.stopPropagation()}>
-                        <h2>Invite to Session</h2>
+                        <h2>Delete Session</h2>
 
                         <div className="form-group">
-                            <label>Role</label>
+                            <label>Workspace</label>
                             <div className="role-selector">
                                 <button
                                     type="button"
-                                    className={`role-option ${inviteRole === 'VIEWER' ? 'active' : ''}`}
-                                    onClick={() => setInviteRole('VIEWER')}
+                                    className={`role-option ${workspaceCleanup === 'keep' ? 'active' : ''}`}
+                                    onClick={() => setWorkspaceCleanup('keep')}
+                                >
+                                    <strong>Keep</strong>
+                                    <span>Leave the worktree in place</span>
+                                </button>
+                                <button
+                                    type="button"
+                                    className={`role-option ${workspaceCleanup === 'archive' ? 'active' : ''}`}
+                                    onClick={() => setWorkspaceCleanup('archive')}
                                 >
-                                    <strong>Viewer</strong>
-                                    <span>Can only watch the terminal</span>
+                                    <strong>Archive</strong>
+                                    <span>Move it to the archive</span>
                                 </button>
                                 <button
                                     type="button"
-                                    className={`role-option ${inviteRole === 'OPERATOR' ? 'active' : ''}`}
-                                    onClick={() => setInviteRole('OPERATOR')}
+                                    className={`role-option ${workspaceCleanup === 'remove' ? 'active' : ''}`}
+                                    onClick={() => setWorkspaceCleanup('remove')}
                                 >
-                                    <strong>Operator</strong>
-                                    <span>Can type in the terminal</span>
+                                    <strong>Remove</strong>
+                                    <span>Delete the worktree, keep the branch</span>
                                 </button>
                             </div>
                         </div>
 
-                        {!inviteLink ? (
+                        {deleteError && <div className="error-message">{deleteError}</div>}
+
+                        <div className="modal-actions">
+                            <button
+                                className="btn btn-secondary"
+                                onClick={() => setShowDeleteModal(false)}
+                            >
+                                Cancel
+                            </button>
                             <button
-                                className="btn btn-primary w-full"
-                                onClick={handleCreateInvite}
+                                className="btn btn-danger"
+                                onClick={handleDeleteSession}
                             >
-                                Generate Invite Link
+                                Delete
                             </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Recordings Modal */}
+            {showRecordingsModal && (
+                <div className="modal-overlay" onClick={() => setShowRecordingsModal(false)}>
+                    <div className="modal animate-slide-up" onClick={(e) => e.stopPropagation()}>
+                        <h2>Recordings</h2>
+
+                        {recordings.length === 0 ? (
+                            <p className="text-secondary">No recordings for this session.</p>
                         ) : (
-                            <div className="invite-link-box">
-                                <input
-                                    type="text"
-                                    value={inviteLink}
-                                    readOnly
-                                    className="invite-link-input"
-                                />
-                                <button className="btn btn-primary" onClick={handleCopyInvite}>
-                                    Copy
-                                </button>
-                            </div>
+                            <ul className="recordings-list">
+                                {recordings.map((recording) => (
+                                    <li key={recording.id} className="recording-item">
+                                        <Link to={`/session/${id}/recordings/${recording.id}`}>
+                                            {new Date(recording.createdAt).toLocaleString()}
+                                        </Link>
+                                        <span className="text-muted text-sm">
+                                            {(recording.size / 1024).toFixed(1)} KB
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
                         )}
 
                         <button
                             className="btn btn-secondary w-full"
-                            onClick={() => {
-                                setShowInviteModal(false);
-                                setInviteLink('');
-                            }}
+                            onClick={() => setShowRecordingsModal(false)}
                             style={{ marginTop: 'var(--space-md)' }}
                         >
                             Close
@@ -230,6 +397,16 @@ export function SessionPage() {
                     </div>
                 </div>
             )}
+
+            {/* Invite Modal */}
+            {showInviteModal && (
+                <InviteModal token={token!} sessionId={session.id} onClose={() => setShowInviteModal(false)} />
+            )}
+
+            {/* Share Links Modal */}
+            {showShareModal && (
+                <ShareLinksModal token={token!} sessionId={session.id} onClose={() => setShowShareModal(false)} />
+            )}
         </div>
     );
 }
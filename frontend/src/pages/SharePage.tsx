@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Socket } from 'socket.io-client';
+import { sharesApi, createShareSocket } from '../services/api';
+import type { SessionMode } from '../services/api';
+import { Terminal } from '../components/Terminal';
+import { ChatView } from '../components/ChatView';
+import './SessionPage.css';
+import './SharePage.css';
+
+interface SharePreview {
+    sessionId: string;
+    sessionName: string;
+    mode: SessionMode;
+    requiresPassphrase: boolean;
+    expiresAt: string | null;
+    status: 'active' | 'expired' | 'revoked';
+}
+
+const STATUS_MESSAGES: Record<Exclude<SharePreview['status'], 'active'>, string> = {
+    expired: 'This share link has expired.',
+    revoked: 'This share link has been revoked.',
+};
+
+export function SharePage() {
+    const { token: shareToken } = useParams<{ token: string }>();
+
+    const [preview, setPreview] = useState<SharePreview | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [socket, setSocket] = useState<Socket | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!shareToken) return;
+
+        sharesApi.preview(shareToken)
+            .then(setPreview)
+            .catch((err) => setError(err.message))
+            .finally(() => setIsLoading(false));
+    }, [shareToken]);
+
+    useEffect(() => {
+        return () => {
+            socket?.disconnect();
+        };
+    }, [socket]);
+
+    const handleWatch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!shareToken) return;
+
+        setError('');
+        const ws = createShareSocket(shareToken, passphrase || undefined);
+
+        // Wrong passphrase, or the link stopped working
+        ws.on('connect_error', (err) => {
+            setError(err.message);
+            setSocket(null);
+        });
+        ws.on('disconnect', (reason) => {
+            if (reason === 'io server disconnect') {
+                setError('This share link has been revoked.');
+                setSocket(null);
+            }
+        });
+
+        setSocket(ws);
+    };
+
+    if (isLoading) {
+        return (
+            <div className="share-page">
+                <div className="loading-spinner large" />
+            </div>
+        );
+    }
+
+    if (preview && socket) {
+        return (
+            <div className="share-page watching">
+                <header className="share-header">
+                    <h1>{preview.sessionName}</h1>
+                    <span className="badge badge-viewer">READ-ONLY</span>
+                </header>
+                <main className="share-body">
+                    {preview.mode === 'HEADLESS' ? (
+                        <ChatView socket={socket} sessionId={preview.sessionId} canWrite={false} />
+                    ) : (
+                        <Terminal socket={socket} sessionId={preview.sessionId} canWrite={false} />
+                    )}
+                </main>
+            </div>
+        );
+    }
+
+    return (
+        <div className="share-page">
+            <div className="share-card animate-slide-up">
+                {!preview ? (
+                    <>
+                        <h2>Link Not Found</h2>
+                        <p className="text-secondary">{error || 'This share link is not valid.'}</p>
+                    </>
+                ) : (
+                    <>
+                        <p className="text-muted text-sm">Shared read-only</p>
+                        <h2>{preview.sessionName}</h2>
+                        {preview.expiresAt && preview.status === 'active' && (
+                            <p className="text-secondary text-sm">
+                                Available until {new Date(preview.expiresAt).toLocaleString()}
+                            </p>
+                        )}
+
+                        {preview.status !== 'active' ? (
+                            <p className="text-secondary">{STATUS_MESSAGES[preview.status]}</p>
+                        ) : (
+                            <form onSubmit={handleWatch}>
+                                {preview.requiresPassphrase && (
+                                    <div className="form-group">
+                                        <label htmlFor="share-passphrase">Passphrase</label>
+                                        <input
+                                            id="share-passphrase"
+                                            type="password"
+                                            value={passphrase}
+                                            onChange={(e) => setPassphrase(e.target.value)}
+                                            required
+                                            autoFocus
+                                        />
+                                    </div>
+                                )}
+
+                                {error && <div className="error-message">{error}</div>}
+
+                                <button type="submit" className="btn btn-primary w-full">
+                                    Watch Session
+                                </button>
+                            </form>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,6 +2,33 @@ import { io, Socket } from 'socket.io-client';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
+export type SessionMode = 'TERMINAL' | 'HEADLESS';
+
+export interface CreateSessionOptions {
+    profileId?: string;
+    mode?: SessionMode;
+    workspace?: { repoPath: string; branch: string };
+}
+
+export type WorkspaceCleanup = 'keep' | 'archive' | 'remove';
+
+export type ProcessSignal = 'SIGINT' | 'SIGTERM' | 'SIGKILL';
+
+export type ExportFormat = 'md' | 'html' | 'txt';
+
+export interface InviteOptions {
+    expiresInHours?: number;
+    // null = unlimited
+    maxUses?: number | null;
+    email?: string;
+}
+
+export interface ShareLinkOptions {
+    passphrase?: string;
+    // Omitted = until revoked
+    expiresInHours?: number;
+}
+
 // Auth API
 export const authApi = {
     async register(email: string, password: string, name: string) {
@@ -49,16 +76,19 @@ export const sessionsApi = {
         return res.json();
     },
 
-    async create(token: string, name: string, description?: string) {
+    async create(token: string, name: string, description?: string, options: CreateSessionOptions = {}) {
         const res = await fetch(`${API_URL}/api/sessions`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 Authorization: `Bearer ${token}`,
             },
-            body: JSON.stringify({ name, description }),
+            body: JSON.stringify({ name, description, ...options }),
         });
-        if (!res.ok) throw new Error('Failed to create session');
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to create session');
+        }
         return res.json();
     },
 
@@ -70,34 +100,419 @@ export const sessionsApi = {
         return res.json();
     },
 
-    async createInvite(token: string, sessionId: string, role: 'VIEWER' | 'OPERATOR') {
+    async getDiff(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/diff`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to fetch changes');
+        }
+        return res.json();
+    },
+
+    async createInvite(token: string, sessionId: string, role: 'VIEWER' | 'OPERATOR', options: InviteOptions = {}) {
         const res = await fetch(`${API_URL}/api/sessions/${sessionId}/invite`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 Authorization: `Bearer ${token}`,
             },
-            body: JSON.stringify({ role }),
+            body: JSON.stringify({ role, ...options }),
         });
-        if (!res.ok) throw new Error('Failed to create invite');
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to create invite');
+        }
         return res.json();
     },
 
+    async listInvites(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/invites`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch invites');
+        return res.json();
+    },
+
+    async revokeInvite(token: string, sessionId: string, inviteId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/invites/${inviteId}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to revoke invite');
+        }
+    },
+
     async joinWithInvite(token: string, inviteToken: string) {
         const res = await fetch(`${API_URL}/api/sessions/join/${inviteToken}`, {
             method: 'POST',
             headers: { Authorization: `Bearer ${token}` },
         });
-        if (!res.ok) throw new Error('Failed to join session');
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to join session');
+        }
         return res.json();
     },
 
-    async delete(token: string, sessionId: string) {
-        const res = await fetch(`${API_URL}/api/sessions/${sessionId}`, {
+    // Start, stop or restart the session's process
+    async lifecycle(token: string, sessionId: string, action: 'start' | 'stop' | 'restart') {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/${action}`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || `Failed to ${action} session`);
+        }
+    },
+
+    async signal(token: string, sessionId: string, signal: ProcessSignal) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/signal`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ signal }),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to send signal');
+        }
+    },
+
+    async exportTranscript(token: string, sessionId: string, format: ExportFormat): Promise<Blob> {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/export?format=${format}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to export session');
+        }
+        return res.blob();
+    },
+
+    async delete(token: string, sessionId: string, workspace: WorkspaceCleanup = 'keep') {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}?workspace=${workspace}`, {
             method: 'DELETE',
             headers: { Authorization: `Bearer ${token}` },
         });
-        if (!res.ok) throw new Error('Failed to delete session');
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to delete session');
+        }
+    },
+};
+
+// Invite previews (no sign-in needed)
+export const invitesApi = {
+    async preview(inviteToken: string) {
+        const res = await fetch(`${API_URL}/api/invites/${inviteToken}`);
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to load invite');
+        }
+        return res.json();
+    },
+};
+
+// Session members API
+export const membersApi = {
+    async list(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/members`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch members');
+        return res.json();
+    },
+
+    async updateRole(token: string, sessionId: string, userId: string, role: 'VIEWER' | 'OPERATOR') {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/members/${userId}`, {
+            method: 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ role }),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to change role');
+        }
+        return res.json();
+    },
+
+    async remove(token: string, sessionId: string, userId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/members/${userId}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to remove member');
+        }
+    },
+
+    async transferOwnership(token: string, sessionId: string, userId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/members/transfer`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ userId }),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to transfer ownership');
+        }
+    },
+};
+
+// Share links API
+export const sharesApi = {
+    async list(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/shares`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch share links');
+        return res.json();
+    },
+
+    async create(token: string, sessionId: string, options: ShareLinkOptions = {}) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/shares`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify(options),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to create share link');
+        }
+        return res.json();
+    },
+
+    async revoke(token: string, sessionId: string, shareId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/shares/${shareId}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to revoke share link');
+        }
+    },
+
+    // No sign-in needed
+    async preview(shareToken: string) {
+        const res = await fetch(`${API_URL}/api/share/${shareToken}`);
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to load share link');
+        }
+        return res.json();
+    },
+};
+
+// Transcript search API
+export const searchApi = {
+    async search(token: string, query: string) {
+        const res = await fetch(`${API_URL}/api/search?q=${encodeURIComponent(query)}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Search failed');
+        }
+        return res.json();
+    },
+};
+
+// Launch profiles API
+export const profilesApi = {
+    async list(token: string) {
+        const res = await fetch(`${API_URL}/api/profiles`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch profiles');
+        return res.json();
+    },
+};
+
+// Recordings API
+export const recordingsApi = {
+    async list(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/recordings`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch recordings');
+        return res.json();
+    },
+
+    async download(token: string, sessionId: string, recordingId: string): Promise<string> {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/recordings/${recordingId}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to download recording');
+        return res.text();
+    },
+};
+
+// Context files API
+export const contextFilesApi = {
+    async list(token: string, sessionId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/context-files`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch context files');
+        return res.json();
+    },
+
+    async upload(token: string, sessionId: string, file: File) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/context-files`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({
+                filename: file.name,
+                content: await file.text(),
+                mimeType: file.type || 'text/plain',
+            }),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.details?.[0]?.message || error.error || 'Failed to upload file');
+        }
+        return res.json();
+    },
+
+    async inject(token: string, sessionId: string, fileId: string, mode: 'write' | 'paste', overwrite = false) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/context-files/${fileId}/inject`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ mode, overwrite }),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to inject file');
+        }
+        return res.json();
+    },
+
+    async delete(token: string, sessionId: string, fileId: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/context-files/${fileId}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to delete file');
+    },
+};
+
+// Working-directory files API
+export const filesApi = {
+    async list(token: string, sessionId: string, path = '') {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/files?path=${encodeURIComponent(path)}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.error || 'Failed to list files');
+        }
+        return res.json();
+    },
+
+    async read(token: string, sessionId: string, path: string) {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/files/content?path=${encodeURIComponent(path)}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to read file');
+        return res.json();
+    },
+
+    async download(token: string, sessionId: string, path: string): Promise<Blob> {
+        const res = await fetch(`${API_URL}/api/sessions/${sessionId}/files/download?path=${encodeURIComponent(path)}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to download file');
+        return res.blob();
+    },
+};
+
+// Push notifications API
+export interface NotificationPreferences {
+    notifyOnExit: boolean;
+    notifyOnPrompt: boolean;
+    notifyIdleMinutes: number | null;
+    notifyPattern: string | null;
+}
+
+export const notificationsApi = {
+    async getConfig(token: string): Promise<{ enabled: boolean; publicKey: string | null }> {
+        const res = await fetch(`${API_URL}/api/notifications/config`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch notification config');
+        return res.json();
+    },
+
+    async subscribe(token: string, subscription: PushSubscriptionJSON) {
+        const res = await fetch(`${API_URL}/api/notifications/subscriptions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify(subscription),
+        });
+        if (!res.ok) throw new Error('Failed to register for notifications');
+    },
+
+    async unsubscribe(token: string, endpoint: string) {
+        const res = await fetch(`${API_URL}/api/notifications/subscriptions`, {
+            method: 'DELETE',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ endpoint }),
+        });
+        if (!res.ok) throw new Error('Failed to unregister from notifications');
+    },
+
+    async getPreferences(token: string, sessionId: string): Promise<NotificationPreferences> {
+        const res = await fetch(`${API_URL}/api/notifications/sessions/${sessionId}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to fetch notification settings');
+        return res.json();
+    },
+
+    async updatePreferences(token: string, sessionId: string, preferences: NotificationPreferences) {
+        const res = await fetch(`${API_URL}/api/notifications/sessions/${sessionId}`, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify(preferences),
+        });
+        if (!res.ok) {
+            const error = await res.json();
+            throw new Error(error.details?.[0]?.message || error.error || 'Failed to save notification settings');
+        }
+        return res.json();
     },
 };
 
@@ -108,3 +523,11 @@ export function createSocket(token: string): Socket {
         transports: ['websocket', 'polling'],
     });
 }
+
+// Read-only guest connection through a share link
+export function createShareSocket(shareToken: string, passphrase?: string): Socket {
+    return io(API_URL || window.location.origin, {
+        auth: { shareToken, passphrase },
+        transports: ['websocket', 'polling'],
+    });
+}
@@ -0,0 +1,59 @@
+import { notificationsApi } from './api';
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+function decodeKey(base64: string): Uint8Array<ArrayBuffer> {
+    const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(padded);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) {
+        bytes[i] = raw.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export function isPushSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * Get this device's current push subscription, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.ready;
+    return registration.pushManager.getSubscription();
+}
+
+/**
+ * Ask for permission, subscribe this device and register it with the backend
+ */
+export async function enablePush(token: string): Promise<void> {
+    const config = await notificationsApi.getConfig(token);
+    if (!config.enabled || !config.publicKey) {
+        throw new Error('Push notifications are not configured on the server');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+        throw new Error('Notification permission was denied');
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: decodeKey(config.publicKey),
+        });
+    await notificationsApi.subscribe(token, subscription.toJSON());
+}
+
+/**
+ * Unsubscribe this device and unregister it from the backend
+ */
+export async function disablePush(token: string): Promise<void> {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+
+    await notificationsApi.unsubscribe(token, subscription.endpoint);
+    await subscription.unsubscribe();
+}